@@ -0,0 +1,87 @@
+/**
+ * Headless "Refresh Documentation" for scripts and CI:
+ *
+ *   npm run compile
+ *   npm run refresh-docs -- [--check] [--root <folder>]... <file.md>...
+ *
+ * Paths in the anchors are resolved against each `--root` (the current folder
+ * by default). In multi-root exports the first path segment is the workspace
+ * folder name, which is matched against the root's folder name. `--check`
+ * only reports what would change. The exit code is 1 when a block could not
+ * be resolved, or with `--check` when a block is out of date.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { refreshDocumentation } from '../services/docRefresher';
+
+function main(args: string[]): number {
+    const roots: string[] = [];
+    const files: string[] = [];
+    let check = false;
+
+    for (let i = 0; i < args.length; i++) {
+        if (args[i] === '--check') {
+            check = true;
+        } else if (args[i] === '--root' && args[i + 1]) {
+            roots.push(path.resolve(args[++i]));
+        } else {
+            files.push(args[i]);
+        }
+    }
+    if (files.length === 0) {
+        console.error('Usage: refresh-docs [--check] [--root <folder>]... <file.md>...');
+        return 2;
+    }
+    if (roots.length === 0) {
+        roots.push(process.cwd());
+    }
+
+    let failed = false;
+    for (const file of files) {
+        let content: string;
+        try {
+            content = fs.readFileSync(file, 'utf8');
+        } catch (error: any) {
+            console.error(`${file}: ${error.message}`);
+            failed = true;
+            continue;
+        }
+        const result = refreshDocumentation(content, displayPath => readSource(roots, displayPath));
+
+        result.problems.forEach(problem => console.error(`${file}:${problem.line + 1}: ${problem.message}`));
+        if (result.problems.length > 0 || (check && result.updated > 0)) {
+            failed = true;
+        }
+
+        if (check) {
+            console.log(`${file}: ${result.updated} out of date, ${result.unchanged} up to date`);
+        } else {
+            if (result.updated > 0) {
+                fs.writeFileSync(file, result.content);
+            }
+            console.log(`${file}: ${result.updated} refreshed, ${result.unchanged} up to date`);
+        }
+    }
+    return failed ? 1 : 0;
+}
+
+// A source that cannot be read leaves its blocks unresolved instead of ending the run
+function readSource(roots: string[], displayPath: string): string | undefined {
+    const [folderName, ...rest] = displayPath.split('/');
+    for (const root of roots) {
+        const candidates = [path.resolve(root, displayPath)];
+        if (rest.length > 0 && path.basename(root) === folderName) {
+            candidates.push(path.join(root, ...rest));
+        }
+        for (const candidate of candidates) {
+            try {
+                return fs.readFileSync(candidate, 'utf8');
+            } catch {
+                // Not under this root
+            }
+        }
+    }
+    return undefined;
+}
+
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,60 @@
+import * as path from 'path';
+import { CodeSnippet, ExportContext, SnippetExporter } from '../types/types';
+import { getSnippetLines } from './snippetGrouping';
+
+export interface CodeTourPosition {
+    line: number;
+    character: number;
+}
+
+export interface CodeTourStep {
+    file?: string;
+    directory?: string;
+    uri?: string;
+    line?: number;
+    selection?: { start: CodeTourPosition; end: CodeTourPosition };
+    title?: string;
+    description: string;
+}
+
+export interface CodeTour {
+    $schema?: string;
+    title: string;
+    description?: string;
+    steps: CodeTourStep[];
+}
+
+/**
+ * Writes the collection as a CodeTour (https://aka.ms/codetour) with one step
+ * per snippet. File paths are relative to the snippet's workspace folder, so
+ * the tour belongs in that folder's `.tours` directory.
+ */
+export class CodeTourExporter implements SnippetExporter {
+    public readonly id = 'codetour';
+    public readonly name = 'CodeTour';
+    public readonly fileExtension = 'tour';
+    public readonly defaultFolder = '.tours';
+
+    public render(snippets: CodeSnippet[], context?: ExportContext): string {
+        const tour: CodeTour = {
+            $schema: 'https://aka.ms/codetour-schema',
+            title: context?.title || 'Code Snippets Collection',
+            steps: snippets.map(snippet => {
+                const { startLine, endLine } = getSnippetLines(snippet);
+                // CodeTour positions are 1-based for both lines and characters
+                return {
+                    file: snippet.relativePath.split(path.sep).join('/'),
+                    line: endLine,
+                    selection: {
+                        start: { line: startLine, character: snippet.range.start.character + 1 },
+                        end: { line: snippet.range.end.line + 1, character: snippet.range.end.character + 1 }
+                    },
+                    title: snippet.description,
+                    description: snippet.explanation || snippet.description
+                };
+            })
+        };
+
+        return JSON.stringify(tour, null, 2) + '\n';
+    }
+}
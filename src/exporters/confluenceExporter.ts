@@ -0,0 +1,65 @@
+import { CodeSnippet, ExportContext, SnippetExporter } from '../types/types';
+import { getDisplayPath } from '../services/workspacePaths';
+import { getGroupCode, getGroupLines, getGroupPermalink, getGroupTitle, groupSnippets } from './snippetGrouping';
+import { escapeHtml } from './syntaxHighlighter';
+
+// VS Code language ids whose name differs in the Confluence code macro
+const CONFLUENCE_LANGUAGES: { [languageId: string]: string } = {
+    'javascript': 'js',
+    'javascriptreact': 'js',
+    'typescriptreact': 'typescript',
+    'python': 'py',
+    'csharp': 'c#',
+    'c': 'cpp',
+    'shellscript': 'bash',
+    'yaml': 'yml',
+    'html': 'xml',
+    'plaintext': 'text'
+};
+
+/**
+ * Confluence storage format (XHTML), ready to paste into the page source
+ * editor or to upload through the REST API.
+ */
+export class ConfluenceExporter implements SnippetExporter {
+    public readonly id = 'confluence';
+    public readonly name = 'Confluence storage format';
+    public readonly fileExtension = 'xml';
+
+    public render(snippets: CodeSnippet[], context?: ExportContext): string {
+        let content = `<h1>Code Snippets Collection</h1>\n<p><em>Generated on: ${escapeHtml(new Date().toLocaleString())}</em></p>\n<hr />\n`;
+
+        groupSnippets(snippets).forEach((snippetGroup) => {
+            const firstSnippet = snippetGroup[0];
+            content += `<h2>${escapeHtml(getGroupTitle(snippetGroup))}</h2>\n`;
+            content += `<p><strong>File:</strong> <code>${escapeHtml(getDisplayPath(firstSnippet))}</code></p>\n`;
+            content += `<p><strong>Lines:</strong> ${escapeHtml(getGroupLines(snippetGroup))}</p>\n`;
+
+            const permalink = getGroupPermalink(snippetGroup, context);
+            if (permalink) {
+                content += `<p><strong>Permalink:</strong> <a href="${escapeHtml(permalink)}">${escapeHtml(getDisplayPath(firstSnippet))}</a></p>\n`;
+            }
+
+            if (firstSnippet.explanation) {
+                content += `<p><strong>Explanation:</strong></p>\n`;
+                content += `<blockquote><p>${escapeHtml(firstSnippet.explanation).replace(/\n/g, '<br />')}</p></blockquote>\n`;
+            }
+
+            content += `<ac:structured-macro ac:name="code">\n`;
+            content += `<ac:parameter ac:name="language">${escapeHtml(toConfluenceLanguage(firstSnippet.language))}</ac:parameter>\n`;
+            content += `<ac:plain-text-body><![CDATA[${escapeCdata(getGroupCode(snippetGroup))}]]></ac:plain-text-body>\n`;
+            content += `</ac:structured-macro>\n<hr />\n`;
+        });
+
+        return content;
+    }
+}
+
+function toConfluenceLanguage(languageId: string): string {
+    return CONFLUENCE_LANGUAGES[languageId] || languageId || 'text';
+}
+
+// "]]>" would end the CDATA section early, so split it across two sections
+function escapeCdata(code: string): string {
+    return code.replace(/\]\]>/g, ']]]]><![CDATA[>');
+}
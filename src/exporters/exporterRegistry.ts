@@ -0,0 +1,35 @@
+import { DirectoryExporter, SnippetExporter } from '../types/types';
+import { MarkdownExporter } from './markdownExporter';
+import { HtmlExporter } from './htmlExporter';
+import { ConfluenceExporter } from './confluenceExporter';
+import { JiraExporter } from './jiraExporter';
+import { CodeTourExporter } from './codeTourExporter';
+import { JsonExporter } from './jsonExporter';
+import { ObsidianVaultExporter } from './obsidianExporter';
+import { MkDocsExporter } from './mkdocsExporter';
+
+const builtInExporters: SnippetExporter[] = [
+    new MarkdownExporter(),
+    new HtmlExporter(),
+    new ConfluenceExporter(),
+    new JiraExporter(),
+    new CodeTourExporter(),
+    new JsonExporter()
+];
+
+const directoryExporters: DirectoryExporter[] = [
+    new ObsidianVaultExporter(),
+    new MkDocsExporter()
+];
+
+export function getExporters(): SnippetExporter[] {
+    return [...builtInExporters];
+}
+
+export function getExporter(id: string): SnippetExporter | undefined {
+    return builtInExporters.find(exporter => exporter.id === id);
+}
+
+export function getDirectoryExporters(): DirectoryExporter[] {
+    return [...directoryExporters];
+}
@@ -0,0 +1,162 @@
+import { CodeSnippet, ExportContext, SnippetExporter } from '../types/types';
+import { getDisplayPath } from '../services/workspacePaths';
+import { getGroupCode, getGroupLines, getGroupPermalink, getGroupTitle, groupSnippets } from './snippetGrouping';
+import { escapeHtml, highlightCode } from './syntaxHighlighter';
+
+/**
+ * Single HTML file with inline styles and no scripts, so it can be mailed
+ * around or opened from disk without network access.
+ */
+export class HtmlExporter implements SnippetExporter {
+    public readonly id = 'html';
+    public readonly name = 'HTML (self-contained)';
+    public readonly fileExtension = 'html';
+
+    public render(snippets: CodeSnippet[], context?: ExportContext): string {
+        const groups = groupSnippets(snippets);
+
+        const toc = groups.map((snippetGroup, index) => `
+            <li><a href="#snippet-${index + 1}">${escapeHtml(getGroupTitle(snippetGroup))}</a>
+                <span class="toc-path">${escapeHtml(getDisplayPath(snippetGroup[0]))}</span></li>`).join('');
+
+        const sections = groups.map((snippetGroup, index) => {
+            const firstSnippet = snippetGroup[0];
+            const explanation = firstSnippet.explanation
+                ? `
+            <details class="explanation" open>
+                <summary>Explanation</summary>
+                <blockquote>${escapeHtml(firstSnippet.explanation).replace(/\n/g, '<br>')}</blockquote>
+            </details>`
+                : '';
+
+            const link = getGroupPermalink(snippetGroup, context);
+            const permalink = link ? ` <a class="permalink" href="${escapeHtml(link)}">view source</a>` : '';
+
+            return `
+        <section id="snippet-${index + 1}">
+            <h2>${escapeHtml(getGroupTitle(snippetGroup))}</h2>
+            <p class="file"><strong>File:</strong> <code>${escapeHtml(getDisplayPath(firstSnippet))}</code>
+                <span class="lines">lines ${escapeHtml(getGroupLines(snippetGroup))}</span>${permalink}</p>${explanation}
+            <pre><code class="language-${escapeHtml(firstSnippet.language)}">${highlightCode(getGroupCode(snippetGroup), firstSnippet.language)}</code></pre>
+        </section>`;
+        }).join('\n');
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Code Snippets Collection</title>
+    <style>
+        :root {
+            --bg: #ffffff; --fg: #1f2328; --muted: #656d76; --border: #d0d7de;
+            --code-bg: #f6f8fa; --sidebar-bg: #f6f8fa; --link: #0969da;
+            --tok-keyword: #cf222e; --tok-string: #0a3069; --tok-comment: #6e7781; --tok-number: #0550ae;
+        }
+        @media (prefers-color-scheme: dark) {
+            :root {
+                --bg: #0d1117; --fg: #e6edf3; --muted: #8d96a0; --border: #30363d;
+                --code-bg: #161b22; --sidebar-bg: #010409; --link: #4493f8;
+                --tok-keyword: #ff7b72; --tok-string: #a5d6ff; --tok-comment: #8b949e; --tok-number: #79c0ff;
+            }
+        }
+        body {
+            margin: 0;
+            display: flex;
+            font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif;
+            color: var(--fg);
+            background-color: var(--bg);
+        }
+        nav {
+            position: sticky;
+            top: 0;
+            height: 100vh;
+            overflow-y: auto;
+            width: 280px;
+            flex-shrink: 0;
+            padding: 1rem;
+            box-sizing: border-box;
+            background-color: var(--sidebar-bg);
+            border-right: 1px solid var(--border);
+        }
+        nav h1 {
+            font-size: 1rem;
+            margin-top: 0;
+        }
+        nav ol {
+            padding-left: 1.2rem;
+        }
+        nav li {
+            margin-bottom: 0.6rem;
+        }
+        nav a {
+            color: var(--link);
+            text-decoration: none;
+        }
+        .toc-path {
+            display: block;
+            font-size: 0.8em;
+            color: var(--muted);
+            word-break: break-all;
+        }
+        main {
+            flex: 1;
+            min-width: 0;
+            padding: 1rem 2rem;
+        }
+        section {
+            border-bottom: 1px solid var(--border);
+            padding-bottom: 1rem;
+        }
+        .lines, .permalink {
+            margin-left: 0.5rem;
+            font-size: 0.9em;
+            color: var(--muted);
+        }
+        .permalink {
+            color: var(--link);
+        }
+        .generated {
+            color: var(--muted);
+            font-style: italic;
+        }
+        .explanation summary {
+            cursor: pointer;
+            font-weight: bold;
+        }
+        blockquote {
+            margin: 0.5rem 0;
+            padding: 0 1rem;
+            color: var(--muted);
+            border-left: 0.25rem solid var(--border);
+        }
+        pre {
+            padding: 1rem;
+            overflow-x: auto;
+            border-radius: 6px;
+            background-color: var(--code-bg);
+            font-family: ui-monospace, SFMono-Regular, Consolas, "Liberation Mono", Menlo, monospace;
+            font-size: 0.9em;
+        }
+        .tok-keyword { color: var(--tok-keyword); }
+        .tok-string { color: var(--tok-string); }
+        .tok-comment { color: var(--tok-comment); font-style: italic; }
+        .tok-number { color: var(--tok-number); }
+    </style>
+</head>
+<body>
+    <nav>
+        <h1>Contents</h1>
+        <ol>${toc}
+        </ol>
+    </nav>
+    <main>
+        <h1>Code Snippets Collection</h1>
+        <p class="generated">Generated on: ${escapeHtml(new Date().toLocaleString())}</p>
+${sections}
+    </main>
+</body>
+</html>
+`;
+    }
+}
@@ -0,0 +1,79 @@
+import { CodeSnippet, ExportContext, SnippetExporter } from '../types/types';
+import { getDisplayPath } from '../services/workspacePaths';
+import { getGroupCode, getGroupLines, getGroupPermalink, getGroupTitle, groupSnippets } from './snippetGrouping';
+
+// Languages understood by the Jira {code} macro, keyed by VS Code language id
+const JIRA_LANGUAGES: { [languageId: string]: string } = {
+    'javascript': 'javascript',
+    'javascriptreact': 'javascript',
+    'typescript': 'javascript',
+    'typescriptreact': 'javascript',
+    'csharp': 'c#',
+    'cpp': 'cpp',
+    'c': 'c',
+    'shellscript': 'bash',
+    'objective-c': 'objc',
+    'vb': 'visualbasic',
+    'go': 'go',
+    'java': 'java',
+    'python': 'python',
+    'ruby': 'ruby',
+    'php': 'php',
+    'perl': 'perl',
+    'sql': 'sql',
+    'json': 'json',
+    'xml': 'xml',
+    'html': 'html',
+    'css': 'css',
+    'yaml': 'yaml',
+    'scala': 'scala',
+    'swift': 'swift',
+    'groovy': 'groovy',
+    'lua': 'lua',
+    'r': 'r',
+    'haskell': 'haskell',
+    'erlang': 'erlang'
+};
+
+export class JiraExporter implements SnippetExporter {
+    public readonly id = 'jira';
+    public readonly name = 'Jira wiki markup';
+    public readonly fileExtension = 'txt';
+
+    public render(snippets: CodeSnippet[], context?: ExportContext): string {
+        let content = `h1. Code Snippets Collection\n\n_Generated on: ${new Date().toLocaleString()}_\n\n----\n\n`;
+
+        groupSnippets(snippets).forEach((snippetGroup) => {
+            const firstSnippet = snippetGroup[0];
+            content += `h2. ${escapeWiki(getGroupTitle(snippetGroup))}\n\n`;
+            content += `*File:* {{${getDisplayPath(firstSnippet)}}}\n\n`;
+            content += `*Lines:* ${getGroupLines(snippetGroup)}\n\n`;
+
+            const permalink = getGroupPermalink(snippetGroup, context);
+            if (permalink) {
+                content += `*Permalink:* [${escapeWiki(getDisplayPath(firstSnippet))}|${permalink}]\n\n`;
+            }
+
+            if (firstSnippet.explanation) {
+                content += `*Explanation:*\n{quote}\n${escapeWiki(firstSnippet.explanation)}\n{quote}\n\n`;
+            }
+
+            content += `*Code:*\n`;
+            content += `{code:${JIRA_LANGUAGES[firstSnippet.language] || 'none'}}\n`;
+            content += `${escapeCodeMacro(getGroupCode(snippetGroup))}\n`;
+            content += `{code}\n\n----\n\n`;
+        });
+
+        return content;
+    }
+}
+
+// Characters that would otherwise open macros, links or table cells
+function escapeWiki(text: string): string {
+    return text.replace(/([{}[\]|])/g, '\\$1');
+}
+
+// "{code" would end the macro early and markup has no escape inside it, so break it with a zero-width space
+function escapeCodeMacro(code: string): string {
+    return code.replace(/\{code/gi, match => `{\u200B${match.slice(1)}`);
+}
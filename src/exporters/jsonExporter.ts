@@ -0,0 +1,130 @@
+import { CodeSnippet, ExportContext, SnippetExporter } from '../types/types';
+import { getGroupTitle, groupSnippets } from './snippetGrouping';
+
+/**
+ * Version of the JSON export layout. Bump it whenever a field is renamed,
+ * removed or changes meaning; adding optional fields keeps the version.
+ */
+export const JSON_SCHEMA_VERSION = 2;
+
+/** Zero-based position, the same numbering as `vscode.Position` */
+export interface JsonPosition {
+    line: number;
+    column: number;
+}
+
+export interface JsonSnippet {
+    id: string;
+    /** Name of the workspace folder `relativePath` is relative to, when known */
+    workspaceFolder?: string;
+    /** Always uses `/` separators */
+    relativePath: string;
+    language: string;
+    start: JsonPosition;
+    end: JsonPosition;
+    code: string;
+    description: string;
+    explanation?: string;
+    tags?: string[];
+    /** Function, method or type around the code, e.g. `OrderService.Reconcile` */
+    symbol?: string;
+    /** ISO timestamp, missing for snippets captured before it was recorded */
+    capturedAt?: string;
+    /** `id` of the group in `groups` the snippet belongs to */
+    groupId: string;
+    orphaned?: boolean;
+    drifted?: boolean;
+}
+
+/** Snippets sharing a file and description, as combined by the other exports */
+export interface JsonGroup {
+    id: string;
+    title: string;
+    description: string;
+    workspaceFolder?: string;
+    relativePath: string;
+    snippetIds: string[];
+}
+
+/** Named walk through snippets of the collection, added in version 2 */
+export interface JsonTopic {
+    name: string;
+    intro?: string;
+    /** `id`s of the steps in `snippets`, in walk order */
+    snippetIds: string[];
+}
+
+export interface JsonSnippetDocument {
+    schemaVersion: number;
+    /** Collection name */
+    name: string;
+    exportedAt: string;
+    groups: JsonGroup[];
+    /** Missing in version 1 files */
+    topics?: JsonTopic[];
+    /** In collection order */
+    snippets: JsonSnippet[];
+}
+
+export class JsonExporter implements SnippetExporter {
+    public readonly id = 'json';
+    public readonly name = 'JSON';
+    public readonly fileExtension = 'json';
+
+    public render(snippets: CodeSnippet[], context?: ExportContext): string {
+        const groups: JsonGroup[] = [];
+        const groupIds = new Map<CodeSnippet, string>();
+        const snippetIds = new Map<CodeSnippet, string>();
+        snippets.forEach((snippet, index) => snippetIds.set(snippet, snippet.id || `snippet-${index + 1}`));
+
+        groupSnippets(snippets).forEach((group, index) => {
+            const id = `group-${index + 1}`;
+            group.forEach(snippet => groupIds.set(snippet, id));
+            groups.push({
+                id,
+                title: getGroupTitle(group),
+                description: group[0].description,
+                workspaceFolder: group[0].workspaceFolder,
+                relativePath: toPosixPath(group[0].relativePath),
+                snippetIds: group.map(snippet => snippetIds.get(snippet)!)
+            });
+        });
+
+        const document: JsonSnippetDocument = {
+            schemaVersion: JSON_SCHEMA_VERSION,
+            name: context?.title || 'Code Snippets Collection',
+            exportedAt: new Date().toISOString(),
+            groups,
+            topics: (context?.topics || [])
+                .filter(topic => topic.snippets.length > 0)
+                .map(topic => ({
+                    name: topic.name,
+                    intro: topic.intro,
+                    snippetIds: topic.snippets.map(snippet => snippetIds.get(snippet)!)
+                })),
+            snippets: snippets.map(snippet => ({
+                id: snippetIds.get(snippet)!,
+                workspaceFolder: snippet.workspaceFolder,
+                relativePath: toPosixPath(snippet.relativePath),
+                language: snippet.language,
+                start: { line: snippet.range.start.line, column: snippet.range.start.character },
+                end: { line: snippet.range.end.line, column: snippet.range.end.character },
+                code: snippet.code,
+                description: snippet.description,
+                explanation: snippet.explanation,
+                tags: snippet.tags?.length ? snippet.tags : undefined,
+                symbol: snippet.symbol,
+                capturedAt: snippet.capturedAt,
+                groupId: groupIds.get(snippet)!,
+                orphaned: snippet.orphaned || undefined,
+                drifted: snippet.drifted || undefined
+            }))
+        };
+
+        return JSON.stringify(document, null, 2) + '\n';
+    }
+}
+
+function toPosixPath(relativePath: string): string {
+    return relativePath.replace(/\\/g, '/');
+}
@@ -0,0 +1,107 @@
+import { CodeSnippet, ExportContext, ExportTopic, SnippetExporter } from '../types/types';
+import { getDisplayPath } from '../services/workspacePaths';
+import { formatCodeAnchor, hashCode } from '../services/docRefresher';
+import { getGroupCode, getGroupLines, getGroupPermalink, getGroupTags, getGroupTitle, groupSnippets, groupSnippetsByTag } from './snippetGrouping';
+
+export class MarkdownExporter implements SnippetExporter {
+    public readonly id = 'markdown';
+    public readonly name = 'Markdown';
+    public readonly fileExtension = 'md';
+
+    public render(snippets: CodeSnippet[], context?: ExportContext): string {
+        let content = `# Code Snippets Collection\n\n*Generated on: ${new Date().toLocaleString()}*\n\n---\n\n`;
+
+        const topics = (context?.topics || []).filter(topic => topic.snippets.length > 0);
+        if (topics.length > 0) {
+            topics.forEach(topic => content += renderTopic(topic, context) + '\n---\n\n');
+            const inTopics = new Set(topics.flatMap(topic => topic.snippets));
+            snippets = snippets.filter(snippet => !inTopics.has(snippet));
+        }
+
+        if (context?.groupByTag) {
+            groupSnippetsByTag(snippets).forEach(section => {
+                content += `# ${section.tag ? `Tag: ${section.tag}` : 'Untagged'}\n\n`;
+                content += renderGroups(section.snippets, context);
+            });
+            return content;
+        }
+
+        return content + renderGroups(snippets, context);
+    }
+}
+
+function renderGroups(snippets: CodeSnippet[], context?: ExportContext): string {
+    return groupSnippets(snippets)
+        .map(snippetGroup => renderMarkdownGroup(snippetGroup, undefined, context) + '\n---\n\n')
+        .join('');
+}
+
+/**
+ * Renders one group of snippets (same file and description) as a markdown section.
+ * `language` overrides the language of the code fence.
+ */
+export function renderMarkdownGroup(snippetGroup: CodeSnippet[], language?: string, context?: ExportContext): string {
+    return `## ${getGroupTitle(snippetGroup)}\n\n` + renderGroupDetails(snippetGroup, language, context);
+}
+
+/** A topic as one section: its intro, then a numbered step per snippet headed by the step's file */
+function renderTopic(topic: ExportTopic, context?: ExportContext): string {
+    let content = `## Topic: ${topic.name}\n\n`;
+    if (topic.intro?.trim()) {
+        content += `${topic.intro.trim()}\n\n`;
+    }
+
+    topic.snippets.forEach((snippet, index) => {
+        content += `### ${index + 1}. ${snippet.description} — \`${getDisplayPath(snippet)}\`\n\n`;
+        content += renderGroupDetails([snippet], undefined, context);
+        if (index < topic.snippets.length - 1) {
+            content += '\n';
+        }
+    });
+
+    return content;
+}
+
+// Everything of a group's section below its heading
+function renderGroupDetails(snippetGroup: CodeSnippet[], language?: string, context?: ExportContext): string {
+    const firstSnippet = snippetGroup[0];
+    let content = `**File:** \`${getDisplayPath(firstSnippet)}\`\n\n`;
+    content += `**Lines:** ${getGroupLines(snippetGroup)}\n\n`;
+
+    const tags = getGroupTags(snippetGroup);
+    if (tags.length > 0) {
+        content += `**Tags:** ${tags.map(tag => `\`${tag}\``).join(', ')}\n\n`;
+    }
+
+    const permalink = getGroupPermalink(snippetGroup, context);
+    if (permalink) {
+        content += `**Permalink:** [${getDisplayPath(firstSnippet)}](${permalink})\n\n`;
+    }
+
+    // Add explanation if exists (only show once for grouped snippets)
+    if (firstSnippet.explanation) {
+        content += `**Explanation:**\n\n> ${firstSnippet.explanation.replace(/\n/g, '\n> ')}\n\n`;
+    }
+
+    content += `**Code:**\n`;
+    content += `${renderCodeAnchor(snippetGroup)}\n`;
+    content += '```' + `${language || firstSnippet.language}\n`;
+    content += `${getGroupCode(snippetGroup)}\n`;
+    content += '```\n';
+
+    return content;
+}
+
+// Invisible in rendered markdown; lets "Refresh Documentation" find the code again
+function renderCodeAnchor(snippetGroup: CodeSnippet[]): string {
+    return formatCodeAnchor({
+        path: getDisplayPath(snippetGroup[0]),
+        ranges: snippetGroup.map(({ range }) => ({
+            startLine: range.start.line + 1,
+            startColumn: range.start.character + 1,
+            endLine: range.end.line + 1,
+            endColumn: range.end.character + 1
+        })),
+        hashes: snippetGroup.map(snippet => hashCode(snippet.code))
+    });
+}
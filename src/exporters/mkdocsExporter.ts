@@ -0,0 +1,92 @@
+import { CodeSnippet, DirectoryExporter, ExportContext, ExportFile } from '../types/types';
+import { renderMarkdownGroup } from './markdownExporter';
+import { getGroupTitle, getPosixDisplayPath, getTopLevelFolder, groupSnippets } from './snippetGrouping';
+
+interface SitePage {
+    title: string;
+    fileName: string;
+    groups: CodeSnippet[][];
+}
+
+/**
+ * Writes an MkDocs site: one page per top-level folder of the snippets' paths,
+ * an index page with the table of contents and a `mkdocs.yml` with the nav.
+ */
+export class MkDocsExporter implements DirectoryExporter {
+    public readonly id = 'mkdocs';
+    public readonly name = 'MkDocs Site';
+    public readonly description = 'page per top-level folder, mkdocs.yml';
+
+    public renderFiles(snippets: CodeSnippet[], context?: ExportContext): ExportFile[] {
+        const title = context?.title || 'Code Snippets Collection';
+        const pages = new Map<string, SitePage>();
+        const usedFileNames = new Set(['index']);
+
+        groupSnippets(snippets).forEach(group => {
+            const folder = getTopLevelFolder(group[0]);
+            if (!pages.has(folder)) {
+                pages.set(folder, { title: folder, fileName: uniqueFileName(toSlug(folder), usedFileNames), groups: [] });
+            }
+            pages.get(folder)!.groups.push(group);
+        });
+
+        const files: ExportFile[] = [{ path: 'docs/index.md', content: renderIndexPage(title, [...pages.values()]) }];
+        pages.forEach(page => files.push({ path: `docs/${page.fileName}.md`, content: renderPage(page, context) }));
+        files.push({ path: 'mkdocs.yml', content: renderMkDocsConfig(title, [...pages.values()]) });
+        return files;
+    }
+}
+
+function renderIndexPage(title: string, pages: SitePage[]): string {
+    let content = `# ${title}\n\n*Generated on: ${new Date().toLocaleString()}*\n\n`;
+    content += '| Page | Files | Snippets |\n| --- | --- | --- |\n';
+    pages.forEach(page => {
+        const fileCount = new Set(page.groups.map(group => getPosixDisplayPath(group[0]))).size;
+        content += `| [${page.title}](${page.fileName}.md) | ${fileCount} | ${countSnippets(page)} |\n`;
+    });
+
+    content += '\n## Contents\n\n';
+    pages.forEach(page => {
+        content += `- [${page.title}](${page.fileName}.md)\n`;
+        page.groups.forEach(group => {
+            const groupTitle = getGroupTitle(group);
+            content += `    - [${groupTitle}](${page.fileName}.md#${toSlug(groupTitle)})\n`;
+        });
+    });
+    return content;
+}
+
+function renderPage(page: SitePage, context?: ExportContext): string {
+    let content = `# ${page.title}\n\n${countSnippets(page)} snippets\n\n---\n\n`;
+    page.groups.forEach(group => {
+        content += renderMarkdownGroup(group, undefined, context);
+        content += '\n---\n\n';
+    });
+    return content;
+}
+
+function renderMkDocsConfig(title: string, pages: SitePage[]): string {
+    let content = `site_name: ${JSON.stringify(title)}\ndocs_dir: docs\nnav:\n  - Home: index.md\n`;
+    pages.forEach(page => {
+        content += `  - ${JSON.stringify(page.title)}: ${page.fileName}.md\n`;
+    });
+    return content;
+}
+
+// Same shape as the heading ids MkDocs generates, so index links land on the sections
+function toSlug(text: string): string {
+    return text.toLowerCase().replace(/[^\w\s-]/g, '').trim().replace(/[\s-]+/g, '-') || 'page';
+}
+
+function uniqueFileName(name: string, usedFileNames: Set<string>): string {
+    let candidate = name;
+    for (let i = 2; usedFileNames.has(candidate); i++) {
+        candidate = `${name}-${i}`;
+    }
+    usedFileNames.add(candidate);
+    return candidate;
+}
+
+function countSnippets(page: SitePage): number {
+    return page.groups.reduce((count, group) => count + group.length, 0);
+}
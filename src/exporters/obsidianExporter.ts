@@ -0,0 +1,137 @@
+import { CodeSnippet, DirectoryExporter, ExportContext, ExportFile } from '../types/types';
+import {
+    getGroupCode,
+    getGroupLines,
+    getGroupPermalink,
+    getGroupTags,
+    getGroupTitle,
+    getPosixDisplayPath,
+    getTopLevelFolder,
+    groupSnippets
+} from './snippetGrouping';
+
+interface FileNotes {
+    displayPath: string;
+    note: string;
+    groups: { note: string; snippets: CodeSnippet[] }[];
+}
+
+/**
+ * Writes a vault for Obsidian or Foam: a note per snippet group, an index note
+ * per source file and per top-level folder, linked with path wikilinks.
+ */
+export class ObsidianVaultExporter implements DirectoryExporter {
+    public readonly id = 'obsidian';
+    public readonly name = 'Obsidian / Foam Vault';
+    public readonly description = 'folder of linked notes';
+
+    public renderFiles(snippets: CodeSnippet[], context?: ExportContext): ExportFile[] {
+        const title = context?.title || 'Code Snippets Collection';
+        const usedNotes = new Set<string>();
+        const services = new Map<string, Map<string, FileNotes>>();
+
+        groupSnippets(snippets).forEach(group => {
+            const displayPath = getPosixDisplayPath(group[0]);
+            const service = getTopLevelFolder(group[0]);
+            if (!services.has(service)) {
+                services.set(service, new Map());
+            }
+            const files = services.get(service)!;
+            if (!files.has(displayPath)) {
+                files.set(displayPath, { displayPath, note: `files/${displayPath.split('/').map(toNoteName).join('/')}`, groups: [] });
+            }
+            files.get(displayPath)!.groups.push({ note: uniqueNote(`snippets/${toNoteName(group[0].description)}`, usedNotes), snippets: group });
+        });
+
+        const output: ExportFile[] = [{ path: 'index.md', content: renderIndexNote(title, services) }];
+        services.forEach((files, service) => {
+            const serviceNote = `services/${toNoteName(service)}`;
+            output.push({ path: `${serviceNote}.md`, content: renderServiceNote(service, files) });
+
+            files.forEach(file => {
+                output.push({ path: `${file.note}.md`, content: renderFileNote(file, serviceNote, service) });
+                file.groups.forEach(({ note, snippets: group }) => {
+                    output.push({ path: `${note}.md`, content: renderSnippetNote(group, file, context) });
+                });
+            });
+        });
+
+        return output;
+    }
+}
+
+function renderIndexNote(title: string, services: Map<string, Map<string, FileNotes>>): string {
+    let content = `# ${title}\n\n*Generated on: ${new Date().toLocaleString()}*\n\n## Services\n\n`;
+    services.forEach((files, service) => {
+        content += `- ${wikilink(`services/${toNoteName(service)}`, service)} (${countSnippets(files)} snippets)\n`;
+    });
+    return content;
+}
+
+function renderServiceNote(service: string, files: Map<string, FileNotes>): string {
+    let content = frontMatter({ path: service, snippets: countSnippets(files) });
+    content += `# ${service}\n\nBack to ${wikilink('index', 'index')}\n\n## Files\n\n`;
+    files.forEach(file => {
+        content += `- ${wikilink(file.note, file.displayPath)} (${file.groups.length} notes)\n`;
+    });
+    return content;
+}
+
+function renderFileNote(file: FileNotes, serviceNote: string, service: string): string {
+    const snippets = file.groups.flatMap(group => group.snippets);
+    let content = frontMatter({ path: file.displayPath, language: snippets[0].language, lines: getGroupLines(snippets) });
+    content += `# ${file.displayPath}\n\nService: ${wikilink(serviceNote, service)}\n\n## Snippets\n\n`;
+    file.groups.forEach(({ note, snippets: group }) => {
+        content += `- ${wikilink(note, getGroupTitle(group))} (lines ${getGroupLines(group)})\n`;
+    });
+    return content;
+}
+
+function renderSnippetNote(group: CodeSnippet[], file: FileNotes, context?: ExportContext): string {
+    const firstSnippet = group[0];
+    const tags = getGroupTags(group);
+    let content = frontMatter({ path: file.displayPath, language: firstSnippet.language, lines: getGroupLines(group), ...(tags.length > 0 ? { tags } : {}) });
+    content += `# ${getGroupTitle(group)}\n\nFile: ${wikilink(file.note, file.displayPath)}\n\n`;
+
+    const permalink = getGroupPermalink(group, context);
+    if (permalink) {
+        content += `Permalink: [${file.displayPath}](${permalink})\n\n`;
+    }
+    if (firstSnippet.explanation) {
+        content += `> ${firstSnippet.explanation.replace(/\n/g, '\n> ')}\n\n`;
+    }
+
+    content += '```' + `${firstSnippet.language}\n${getGroupCode(group)}\n` + '```\n';
+    return content;
+}
+
+// Strings are written as JSON, which YAML reads as double-quoted scalars
+function frontMatter(fields: Record<string, string | number | string[]>): string {
+    const lines = Object.entries(fields).map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+    return `---\n${lines.join('\n')}\n---\n\n`;
+}
+
+// The extension is kept so file notes such as `refresh.go` are not taken for attachments
+function wikilink(note: string, label: string): string {
+    return `[[${note}.md|${label.replace(/[[\]|]/g, '')}]]`;
+}
+
+// Obsidian refuses these characters in note names, and `#^[]|` would break wikilinks
+function toNoteName(text: string): string {
+    return text.replace(/[\\/:*?"<>|#^[\]]/g, '-').replace(/\s+/g, ' ').trim() || 'untitled';
+}
+
+function uniqueNote(note: string, usedNotes: Set<string>): string {
+    let candidate = note;
+    for (let i = 2; usedNotes.has(candidate.toLowerCase()); i++) {
+        candidate = `${note} ${i}`;
+    }
+    usedNotes.add(candidate.toLowerCase());
+    return candidate;
+}
+
+function countSnippets(files: Map<string, FileNotes>): number {
+    let count = 0;
+    files.forEach(file => file.groups.forEach(group => count += group.snippets.length));
+    return count;
+}
@@ -0,0 +1,107 @@
+import { CodeSnippet, ExportContext, ExportTopic, SnippetTopic } from '../types/types';
+import { getDisplayPath } from '../services/workspacePaths';
+import { getSnippetTags } from '../services/snippetTags';
+
+/**
+ * Groups snippets that share a file and description, keeping the order in
+ * which each group first appears in the collection.
+ */
+export function groupSnippets(snippets: CodeSnippet[]): CodeSnippet[][] {
+    const groupedSnippets = new Map<string, CodeSnippet[]>();
+
+    snippets.forEach((snippet) => {
+        const key = `${snippet.workspaceFolder || ''}::${snippet.relativePath}::${snippet.description}`;
+        if (!groupedSnippets.has(key)) {
+            groupedSnippets.set(key, []);
+        }
+        groupedSnippets.get(key)!.push(snippet);
+    });
+
+    return Array.from(groupedSnippets.values());
+}
+
+/**
+ * Splits snippets into one section per tag (sorted), followed by the untagged
+ * ones. A snippet with several tags appears in each of their sections.
+ */
+export function groupSnippetsByTag(snippets: CodeSnippet[]): { tag?: string; snippets: CodeSnippet[] }[] {
+    const tags = getSnippetTags(snippets);
+    const sections: { tag?: string; snippets: CodeSnippet[] }[] = tags.map(tag => ({
+        tag,
+        snippets: snippets.filter(snippet => snippet.tags?.includes(tag))
+    }));
+
+    const untagged = snippets.filter(snippet => !snippet.tags?.length);
+    if (untagged.length > 0) {
+        sections.push({ snippets: untagged });
+    }
+    return sections;
+}
+
+/** Topics with their steps looked up among `snippets`; steps that are not exported are left out */
+export function resolveTopics(topics: SnippetTopic[], snippets: CodeSnippet[]): ExportTopic[] {
+    return topics.map(topic => ({
+        name: topic.name,
+        intro: topic.intro,
+        snippets: topic.snippetIds
+            .map(id => snippets.find(snippet => snippet.id === id))
+            .filter((snippet): snippet is CodeSnippet => !!snippet)
+    }));
+}
+
+/** Tags of every snippet in the group, in first-seen order */
+export function getGroupTags(snippetGroup: CodeSnippet[]): string[] {
+    return Array.from(new Set(snippetGroup.flatMap(snippet => snippet.tags || [])));
+}
+
+/** Title of a group, with the snippet count when several snippets were combined */
+export function getGroupTitle(snippetGroup: CodeSnippet[]): string {
+    const firstSnippet = snippetGroup[0];
+    return snippetGroup.length > 1
+        ? `${firstSnippet.description} Total - ${snippetGroup.length}`
+        : firstSnippet.description;
+}
+
+export function getGroupCode(snippetGroup: CodeSnippet[]): string {
+    return snippetGroup.map(snippet => snippet.code).join('\n');
+}
+
+/** 1-based lines of a snippet; a selection ending at column 0 does not include that line */
+export function getSnippetLines(snippet: CodeSnippet): { startLine: number; endLine: number } {
+    const { start, end } = snippet.range;
+    const endLine = end.character === 0 && end.line > start.line ? end.line : end.line + 1;
+    return { startLine: start.line + 1, endLine };
+}
+
+export function formatLineRange(snippet: CodeSnippet): string {
+    const { startLine, endLine } = getSnippetLines(snippet);
+    return startLine === endLine ? `${startLine}` : `${startLine}-${endLine}`;
+}
+
+/** Line ranges of every snippet in the group, e.g. "10-14, 32-40" */
+export function getGroupLines(snippetGroup: CodeSnippet[]): string {
+    return snippetGroup.map(formatLineRange).join(', ');
+}
+
+/** Permalink spanning from the first to the last line of the group */
+export function getGroupPermalink(snippetGroup: CodeSnippet[], context?: ExportContext): string | undefined {
+    if (!context?.getPermalink) return undefined;
+    const lines = snippetGroup.map(getSnippetLines);
+    const startLine = Math.min(...lines.map(l => l.startLine));
+    const endLine = Math.max(...lines.map(l => l.endLine));
+    return context.getPermalink(snippetGroup[0], startLine, endLine);
+}
+
+/** Display path of the snippet's file with `/` separators on every platform */
+export function getPosixDisplayPath(snippet: CodeSnippet): string {
+    return getDisplayPath(snippet).replace(/\\/g, '/');
+}
+
+/**
+ * First folder of the snippet's display path, which is usually the service a
+ * file belongs to. Files directly in the workspace root get `rootName`.
+ */
+export function getTopLevelFolder(snippet: CodeSnippet, rootName = 'root'): string {
+    const segments = getPosixDisplayPath(snippet).split('/');
+    return segments.length > 1 ? segments[0] : rootName;
+}
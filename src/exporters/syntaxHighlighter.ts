@@ -0,0 +1,78 @@
+/**
+ * Tiny regex-based highlighter for self-contained exports. It only knows
+ * comments, strings, numbers and a shared keyword list, which is enough to
+ * make code readable without bundling a real grammar.
+ */
+
+const KEYWORDS = new Set([
+    // Shared by most C-like languages
+    'if', 'else', 'for', 'while', 'do', 'switch', 'case', 'default', 'break', 'continue', 'return',
+    'try', 'catch', 'finally', 'throw', 'throws', 'new', 'delete', 'this', 'super', 'class', 'interface',
+    'extends', 'implements', 'public', 'private', 'protected', 'static', 'final', 'abstract', 'const',
+    'let', 'var', 'void', 'null', 'true', 'false', 'import', 'export', 'from', 'package', 'enum', 'async',
+    'await', 'function', 'typeof', 'instanceof', 'in', 'of', 'yield', 'readonly', 'type', 'namespace',
+    // Go
+    'func', 'go', 'defer', 'chan', 'map', 'struct', 'select', 'range', 'fallthrough', 'goto', 'nil',
+    // Python / Ruby
+    'def', 'elif', 'lambda', 'pass', 'with', 'as', 'not', 'and', 'or', 'is', 'None', 'True', 'False',
+    'self', 'raise', 'except', 'global', 'nonlocal', 'end', 'module', 'begin', 'rescue', 'unless',
+    // Rust / Kotlin / Swift / C#
+    'fn', 'mut', 'impl', 'trait', 'pub', 'use', 'mod', 'match', 'loop', 'where', 'val', 'fun', 'object',
+    'override', 'guard', 'using', 'internal', 'sealed', 'virtual',
+    // SQL
+    'SELECT', 'FROM', 'WHERE', 'INSERT', 'INTO', 'UPDATE', 'SET', 'DELETE', 'JOIN', 'LEFT', 'RIGHT',
+    'INNER', 'OUTER', 'ON', 'GROUP', 'BY', 'ORDER', 'HAVING', 'LIMIT', 'VALUES', 'CREATE', 'TABLE',
+    'AND', 'OR', 'NOT', 'NULL', 'AS', 'IN', 'IS', 'DISTINCT', 'UNION', 'RETURNING'
+]);
+
+const HASH_COMMENT_LANGUAGES = new Set(['python', 'ruby', 'shellscript', 'bash', 'sh', 'yaml', 'perl', 'r', 'powershell', 'dockerfile', 'makefile', 'toml']);
+const DASH_COMMENT_LANGUAGES = new Set(['sql', 'lua', 'haskell']);
+
+export function escapeHtml(unsafe: string): string {
+    return unsafe
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#039;");
+}
+
+function getCommentPattern(language: string): string {
+    const lang = language.toLowerCase();
+    if (HASH_COMMENT_LANGUAGES.has(lang)) return '#[^\\n]*';
+    if (DASH_COMMENT_LANGUAGES.has(lang)) return '--[^\\n]*|\\/\\*[\\s\\S]*?\\*\\/';
+    return '\\/\\/[^\\n]*|\\/\\*[\\s\\S]*?\\*\\/';
+}
+
+/** Returns HTML with `tok-*` spans; everything is escaped */
+export function highlightCode(code: string, language: string): string {
+    const pattern = new RegExp([
+        `(${getCommentPattern(language)})`,
+        '("(?:[^"\\\\\\n]|\\\\.)*"|\'(?:[^\'\\\\\\n]|\\\\.)*\'|`(?:[^`\\\\]|\\\\.)*`)',
+        '(\\b\\d+(?:\\.\\d+)?\\b)',
+        '(\\b[A-Za-z_]\\w*\\b)'
+    ].join('|'), 'g');
+
+    let html = '';
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(code)) !== null) {
+        html += escapeHtml(code.substring(lastIndex, match.index));
+        const [token, comment, str, num] = match;
+        if (comment) {
+            html += `<span class="tok-comment">${escapeHtml(token)}</span>`;
+        } else if (str) {
+            html += `<span class="tok-string">${escapeHtml(token)}</span>`;
+        } else if (num) {
+            html += `<span class="tok-number">${escapeHtml(token)}</span>`;
+        } else if (KEYWORDS.has(token)) {
+            html += `<span class="tok-keyword">${escapeHtml(token)}</span>`;
+        } else {
+            html += escapeHtml(token);
+        }
+        lastIndex = match.index + token.length;
+    }
+    html += escapeHtml(code.substring(lastIndex));
+
+    return html;
+}
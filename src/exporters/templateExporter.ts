@@ -0,0 +1,278 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { CodeSnippet, ExportContext, SnippetExporter } from '../types/types';
+import { getDisplayPath } from '../services/workspacePaths';
+import { formatLineRange, getGroupCode, getGroupLines, getGroupPermalink, getGroupTags, getGroupTitle, getSnippetLines, groupSnippets } from './snippetGrouping';
+
+/*
+ * Templates live in `.dokumenter/templates/<name>.<ext>.tpl` and use a small
+ * Handlebars-like syntax:
+ *
+ *   {{title}}                          placeholder
+ *   {{#each groups}} ... {{/each}}     loop over snippet groups (or `snippets`)
+ *   {{#if explanation}} ... {{else}} ... {{/if}}
+ *
+ * Placeholders are checked against the scope they are used in when the
+ * template is compiled, so typos are reported before any file is written.
+ */
+
+export const TEMPLATE_GLOB = '.dokumenter/templates/*.tpl';
+
+const SNIPPET_FIELDS = ['index', 'description', 'explanation', 'tags', 'path', 'language', 'code', 'startLine', 'endLine', 'lines', 'permalink', 'date'];
+const SCOPE_FIELDS: { [scope in TemplateScope]: string[] } = {
+    root: ['title', 'date', 'groupCount', 'snippetCount', 'groups', 'snippets'],
+    group: [...SNIPPET_FIELDS, 'title', 'count', 'snippets'],
+    snippet: SNIPPET_FIELDS
+};
+const LOOPS: { [scope in TemplateScope]: { [name: string]: TemplateScope } } = {
+    root: { groups: 'group', snippets: 'snippet' },
+    group: { snippets: 'snippet' },
+    snippet: {}
+};
+
+type TemplateScope = 'root' | 'group' | 'snippet';
+type TemplateValue = string | number | TemplateContext[] | undefined;
+interface TemplateContext { [name: string]: TemplateValue }
+
+type TemplateNode =
+    | { type: 'text'; value: string }
+    | { type: 'placeholder'; name: string }
+    | { type: 'each'; name: string; children: TemplateNode[] }
+    | { type: 'if'; name: string; children: TemplateNode[]; elseChildren: TemplateNode[] };
+
+interface OpenBlock {
+    node: Extract<TemplateNode, { type: 'each' | 'if' }>;
+    line: number;
+    column: number;
+    inElse: boolean;
+}
+
+export class TemplateSyntaxError extends Error {
+    constructor(message: string, public readonly line: number, public readonly column: number) {
+        super(`${message} (line ${line}, column ${column})`);
+        this.name = 'TemplateSyntaxError';
+    }
+}
+
+export class TemplateExporter implements SnippetExporter {
+    public readonly id: string;
+    public readonly fileExtension: string;
+    private readonly nodes: TemplateNode[];
+
+    /** Throws TemplateSyntaxError when the template cannot be compiled */
+    constructor(public readonly name: string, fileExtension: string, source: string) {
+        this.id = `template:${name}`;
+        this.fileExtension = fileExtension;
+        this.nodes = compileTemplate(source);
+    }
+
+    public render(snippets: CodeSnippet[], context?: ExportContext): string {
+        const toContext = (snippet: CodeSnippet, index: number) => toSnippetContext(snippet, index, context);
+        const groups = groupSnippets(snippets).map((snippetGroup, index): TemplateContext => ({
+            ...toContext(snippetGroup[0], index),
+            title: getGroupTitle(snippetGroup),
+            code: getGroupCode(snippetGroup),
+            count: snippetGroup.length,
+            endLine: Math.max(...snippetGroup.map(s => getSnippetLines(s).endLine)),
+            lines: getGroupLines(snippetGroup),
+            tags: getGroupTags(snippetGroup).join(', '),
+            permalink: getGroupPermalink(snippetGroup, context) || '',
+            snippets: snippetGroup.map(toContext)
+        }));
+
+        const root: TemplateContext = {
+            title: context?.title || 'Code Snippets Collection',
+            date: new Date().toLocaleString(),
+            groupCount: groups.length,
+            snippetCount: snippets.length,
+            groups,
+            snippets: snippets.map(toContext)
+        };
+
+        return renderNodes(this.nodes, [root]);
+    }
+}
+
+export interface TemplateLoadResult {
+    exporters: TemplateExporter[];
+    errors: { uri: vscode.Uri; error: Error }[];
+}
+
+/** Compiles every template in the workspace; broken or unreadable ones are returned with their errors */
+export async function loadTemplateExporters(): Promise<TemplateLoadResult> {
+    const result: TemplateLoadResult = { exporters: [], errors: [] };
+    const uris = await vscode.workspace.findFiles(TEMPLATE_GLOB);
+
+    for (const uri of uris) {
+        // report.md.tpl -> name "report", extension "md"
+        const baseName = path.basename(uri.fsPath, '.tpl');
+        const extension = path.extname(baseName).substring(1) || 'txt';
+        const name = path.basename(baseName, path.extname(baseName));
+
+        try {
+            const source = new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+            result.exporters.push(new TemplateExporter(name, extension, source));
+        } catch (error: any) {
+            result.errors.push({ uri, error: error instanceof Error ? error : new Error(String(error)) });
+        }
+    }
+
+    return result;
+}
+
+/** Shows one error per broken template with a button that jumps to the problem */
+export async function reportTemplateErrors(errors: TemplateLoadResult['errors']): Promise<void> {
+    for (const { uri, error } of errors) {
+        const choice = await vscode.window.showErrorMessage(`Template ${path.basename(uri.fsPath)}: ${error.message}`, 'Open Template');
+        if (choice === 'Open Template') {
+            const position = error instanceof TemplateSyntaxError ? new vscode.Position(error.line - 1, error.column - 1) : new vscode.Position(0, 0);
+            await vscode.window.showTextDocument(uri, { selection: new vscode.Range(position, position) });
+        }
+    }
+}
+
+function toSnippetContext(snippet: CodeSnippet, index: number, context?: ExportContext): TemplateContext {
+    const { startLine, endLine } = getSnippetLines(snippet);
+    return {
+        index: index + 1,
+        description: snippet.description,
+        explanation: snippet.explanation || '',
+        tags: (snippet.tags || []).join(', '),
+        path: getDisplayPath(snippet),
+        language: snippet.language,
+        code: snippet.code,
+        startLine,
+        endLine,
+        lines: formatLineRange(snippet),
+        permalink: context?.getPermalink?.(snippet, startLine, endLine) || '',
+        // When the snippet was captured; snippets imported without one leave it empty
+        date: snippet.capturedAt ? new Date(snippet.capturedAt).toLocaleString() : ''
+    };
+}
+
+function compileTemplate(source: string): TemplateNode[] {
+    const root: TemplateNode[] = [];
+    const stack: OpenBlock[] = [];
+    const scopes: TemplateScope[] = ['root'];
+    const tagPattern = /\{\{([\s\S]*?)\}\}/g;
+
+    const positionAt = (offset: number) => {
+        const before = source.substring(0, offset).split(/\r?\n/);
+        return { line: before.length, column: before[before.length - 1].length + 1 };
+    };
+    const currentChildren = (): TemplateNode[] => {
+        const open = stack[stack.length - 1];
+        if (!open) return root;
+        return open.inElse && open.node.type === 'if' ? open.node.elseChildren : open.node.children;
+    };
+    const addText = (text: string, offset: number) => {
+        const stray = text.search(/\{\{|\}\}/);
+        if (stray !== -1) {
+            const { line, column } = positionAt(offset + stray);
+            throw new TemplateSyntaxError(`Unmatched "${text.substr(stray, 2)}"`, line, column);
+        }
+        if (text) currentChildren().push({ type: 'text', value: text });
+    };
+    const checkField = (name: string, line: number, column: number) => {
+        const scope = scopes[scopes.length - 1];
+        const visible = scopes.some(s => SCOPE_FIELDS[s].includes(name));
+        if (!visible) {
+            throw new TemplateSyntaxError(`Unknown placeholder "${name}" inside ${scope === 'root' ? 'the document' : `a ${scope}`}`, line, column);
+        }
+    };
+
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = tagPattern.exec(source)) !== null) {
+        addText(source.substring(lastIndex, match.index), lastIndex);
+        lastIndex = match.index + match[0].length;
+
+        const { line, column } = positionAt(match.index);
+        const tag = match[1].trim();
+        const parts = tag.split(/\s+/);
+        const scope = scopes[scopes.length - 1];
+
+        if (parts[0] === '#each' || parts[0] === '#if') {
+            const name = parts[1];
+            if (!name || parts.length > 2) {
+                throw new TemplateSyntaxError(`"{{${parts[0]}}}" expects exactly one name`, line, column);
+            }
+            if (parts[0] === '#each') {
+                const loopScope = LOOPS[scope][name];
+                if (!loopScope) {
+                    const allowed = Object.keys(LOOPS[scope]);
+                    throw new TemplateSyntaxError(`Cannot loop over "${name}" here${allowed.length ? ` (use ${allowed.join(' or ')})` : ''}`, line, column);
+                }
+                const node: TemplateNode = { type: 'each', name, children: [] };
+                currentChildren().push(node);
+                stack.push({ node, line, column, inElse: false });
+                scopes.push(loopScope);
+            } else {
+                checkField(name, line, column);
+                const node: TemplateNode = { type: 'if', name, children: [], elseChildren: [] };
+                currentChildren().push(node);
+                stack.push({ node, line, column, inElse: false });
+            }
+        } else if (tag === 'else') {
+            const open = stack[stack.length - 1];
+            if (!open || open.node.type !== 'if' || open.inElse) {
+                throw new TemplateSyntaxError('"{{else}}" without a matching "{{#if}}"', line, column);
+            }
+            open.inElse = true;
+        } else if (tag === '/each' || tag === '/if') {
+            const open = stack.pop();
+            const expected = tag === '/each' ? 'each' : 'if';
+            if (!open) {
+                throw new TemplateSyntaxError(`"{{${tag}}}" without a matching "{{#${expected}}}"`, line, column);
+            }
+            if (open.node.type !== expected) {
+                throw new TemplateSyntaxError(`"{{${tag}}}" closes "{{#${open.node.type} ${open.node.name}}}" opened at line ${open.line}`, line, column);
+            }
+            if (expected === 'each') scopes.pop();
+        } else if (/^[A-Za-z_]\w*$/.test(tag)) {
+            checkField(tag, line, column);
+            currentChildren().push({ type: 'placeholder', name: tag });
+        } else {
+            throw new TemplateSyntaxError(`Invalid placeholder "{{${tag}}}"`, line, column);
+        }
+    }
+    addText(source.substring(lastIndex), lastIndex);
+
+    const unclosed = stack.pop();
+    if (unclosed) {
+        throw new TemplateSyntaxError(`"{{#${unclosed.node.type} ${unclosed.node.name}}}" is never closed`, unclosed.line, unclosed.column);
+    }
+
+    return root;
+}
+
+function lookup(name: string, contexts: TemplateContext[]): TemplateValue {
+    for (let i = contexts.length - 1; i >= 0; i--) {
+        if (name in contexts[i]) return contexts[i][name];
+    }
+    return undefined;
+}
+
+function renderNodes(nodes: TemplateNode[], contexts: TemplateContext[]): string {
+    return nodes.map(node => {
+        switch (node.type) {
+            case 'text':
+                return node.value;
+            case 'placeholder': {
+                const value = lookup(node.name, contexts);
+                return Array.isArray(value) ? String(value.length) : String(value ?? '');
+            }
+            case 'each': {
+                const items = lookup(node.name, contexts);
+                return Array.isArray(items)
+                    ? items.map(item => renderNodes(node.children, [...contexts, item])).join('')
+                    : '';
+            }
+            case 'if': {
+                const value = lookup(node.name, contexts);
+                const truthy = Array.isArray(value) ? value.length > 0 : Boolean(value);
+                return renderNodes(truthy ? node.children : node.elseChildren, contexts);
+            }
+        }
+    }).join('');
+}
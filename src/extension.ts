@@ -20,26 +20,68 @@ import * as path from 'path';
 import * as fs from 'fs';
 import { SnippetCodeLensProvider } from './providers/codeLensProvider';
 import { SnippetDescriptionLensProvider } from './providers/snippetDescriptionLensProvider';
+import { SnippetDiffContentProvider } from './providers/snippetDiffContentProvider';
+import { ExportedCodeHoverProvider, ExportedDocumentLinkProvider } from './providers/exportedMarkdownProviders';
+import { getNodeSnippets, SnippetTreeNode, SnippetTreeProvider } from './providers/snippetTreeProvider';
 import { SnippetManager } from './services/snippetManager';
+import { SnippetStorage } from './services/snippetStorage';
+import { CodeSnippet, DirectoryExporter, SnippetExporter, SnippetTopic } from './types/types';
+import { getDisplayPath, parseDisplayPath, resolveSnippetUri, resolveWorkspaceFolder } from './services/workspacePaths';
+import { importSnippetGroups, parseSnippetMarkdown } from './services/markdownImporter';
+import { createPermalinkContext } from './services/permalinkResolver';
+import { importCodeTour } from './services/codeTourImporter';
+import { parseSnippetJson } from './services/jsonImporter';
+import { writeDirectoryExport } from './services/exportManifest';
+import { mergeIntoMarkdown } from './services/markdownMerger';
+import { refreshDocumentation } from './services/docRefresher';
+import { searchSnippets } from './services/snippetSearch';
+import { findEnclosingSymbol } from './services/symbolResolver';
+import { filterSnippetsByTags, getSnippetTags, getTagColors, parseTags } from './services/snippetTags';
+import { getDirectoryExporters, getExporters } from './exporters/exporterRegistry';
+import { MarkdownExporter } from './exporters/markdownExporter';
+import { loadTemplateExporters, reportTemplateErrors } from './exporters/templateExporter';
+import { CollectionEditorPanel } from './webview/collectionEditorPanel';
+import { PlaybackSession } from './webview/playbackPanel';
+import { formatLineRange, resolveTopics } from './exporters/snippetGrouping';
 import { getAddSnippetWebviewContent, getUpdateSnippetWebviewContent, getMultiSnippetWebviewContent, getEditSnippetWebviewContent } from './webview/webviewContent';
 
 // --- Global State ---
 let snippetManager: SnippetManager;
 let clearStatusBarItem: vscode.StatusBarItem;
+let collectionStatusBarItem: vscode.StatusBarItem;
 let codeLensProvider: SnippetCodeLensProvider;
 let snippetDescriptionLensProvider: SnippetDescriptionLensProvider;
+let snippetDiffContentProvider: SnippetDiffContentProvider;
+let snippetTreeProvider: SnippetTreeProvider;
+let snippetTreeView: vscode.TreeView<SnippetTreeNode>;
+let documentationDiagnostics: vscode.DiagnosticCollection;
 let selectionDebounce: NodeJS.Timeout | undefined;
 let detailsPanel: vscode.WebviewPanel | undefined;
+let collectionEditorPanel: CollectionEditorPanel | undefined;
+let playbackSession: PlaybackSession | undefined;
+// Where Next/Previous Snippet continue from when the cursor is not inside a snippet
+let lastVisitedSnippet: CodeSnippet | undefined;
 
 // --- Main Activation Function ---
 export function activate(context: vscode.ExtensionContext) {
-    snippetManager = new SnippetManager();
+    snippetManager = new SnippetManager(new SnippetStorage(context.workspaceState));
     codeLensProvider = new SnippetCodeLensProvider();
     snippetDescriptionLensProvider = new SnippetDescriptionLensProvider();
+    snippetDiffContentProvider = new SnippetDiffContentProvider();
+    snippetTreeProvider = new SnippetTreeProvider();
+    snippetTreeView = vscode.window.createTreeView('codeSnippetCollector.snippets', {
+        treeDataProvider: snippetTreeProvider,
+        canSelectMany: true,
+        showCollapseAll: true
+    });
+    documentationDiagnostics = vscode.languages.createDiagnosticCollection('dokumenter-docs');
     
     // Set up two-way communication between snippet manager and description lens provider
     snippetManager.setOnSnippetsChangedCallback((snippets) => {
         snippetDescriptionLensProvider.updateSnippets(snippets);
+        snippetTreeProvider.updateSnippets(snippets, snippetManager.getTopics());
+        collectionEditorPanel?.update();
+        playbackSession?.update(snippets);
         // Update CodeLens provider when snippets change
         codeLensProvider.setSnippetsLength(snippets.length);
         // Force refresh of all CodeLens providers
@@ -60,17 +102,56 @@ export function activate(context: vscode.ExtensionContext) {
         showEditPanel(snippet, onSave);
     });
     
+    snippetDescriptionLensProvider.setShowDriftCallback(showSnippetDrift);
+    
     // --- Register Providers and Commands ---
     context.subscriptions.push(
         vscode.languages.registerCodeLensProvider('*', codeLensProvider),
         vscode.languages.registerCodeLensProvider('*', snippetDescriptionLensProvider),
+        vscode.workspace.registerTextDocumentContentProvider(SnippetDiffContentProvider.scheme, snippetDiffContentProvider),
+        documentationDiagnostics,
+        snippetTreeView,
+        vscode.languages.registerDocumentLinkProvider({ language: 'markdown' }, new ExportedDocumentLinkProvider()),
+        vscode.languages.registerHoverProvider({ language: 'markdown' }, new ExportedCodeHoverProvider()),
         vscode.commands.registerCommand('codeSnippetCollector.quickAdd', quickAdd),
         vscode.commands.registerCommand('codeSnippetCollector.addWithDetails', addWithDetails),
+        vscode.commands.registerCommand('codeSnippetCollector.expandToSymbol', expandToSymbol),
         vscode.commands.registerCommand('codeSnippetCollector.updateSnippetDetails', updateSnippetDetails),
         vscode.commands.registerCommand('codeSnippetCollector.cancelAction', cancelAction),
         vscode.commands.registerCommand('codeSnippetCollector.clearAll', clearAll),
         vscode.commands.registerCommand('codeSnippetCollector.quickSaveToFile', quickSaveSnippetsToFile),
         vscode.commands.registerCommand('codeSnippetCollector.saveAllAs', saveAllAs),
+        vscode.commands.registerCommand('codeSnippetCollector.appendToDocument', appendToDocument),
+        vscode.commands.registerCommand('codeSnippetCollector.copyAllAs', copyAllAs),
+        vscode.commands.registerCommand('codeSnippetCollector.showOrphanedSnippets', showOrphanedSnippets),
+        vscode.commands.registerCommand('codeSnippetCollector.checkDrift', checkSnippetDrift),
+        vscode.commands.registerCommand('codeSnippetCollector.newCollection', newCollection),
+        vscode.commands.registerCommand('codeSnippetCollector.switchCollection', switchCollection),
+        vscode.commands.registerCommand('codeSnippetCollector.renameCollection', renameCollection),
+        vscode.commands.registerCommand('codeSnippetCollector.deleteCollection', deleteCollection),
+        vscode.commands.registerCommand('codeSnippetCollector.openMarkdownAsCollection', openMarkdownAsCollection),
+        vscode.commands.registerCommand('codeSnippetCollector.importCodeTour', importCodeTourAsCollection),
+        vscode.commands.registerCommand('codeSnippetCollector.importJson', importJsonAsCollection),
+        vscode.commands.registerCommand('codeSnippetCollector.refreshDocumentation', refreshDocumentationFile),
+        vscode.commands.registerCommand('codeSnippetCollector.openCollectionEditor', openCollectionEditor),
+        vscode.commands.registerCommand('codeSnippetCollector.startPlayback', startPlayback),
+        vscode.commands.registerCommand('codeSnippetCollector.playbackNext', () => playbackSession?.next()),
+        vscode.commands.registerCommand('codeSnippetCollector.playbackPrevious', () => playbackSession?.previous()),
+        vscode.commands.registerCommand('codeSnippetCollector.playbackJump', () => playbackSession?.jump()),
+        vscode.commands.registerCommand('codeSnippetCollector.stopPlayback', () => playbackSession?.stop()),
+        vscode.commands.registerCommand('codeSnippetCollector.searchSnippets', searchCollection),
+        vscode.commands.registerCommand('codeSnippetCollector.nextSnippet', () => goToSnippet(1)),
+        vscode.commands.registerCommand('codeSnippetCollector.previousSnippet', () => goToSnippet(-1)),
+        vscode.commands.registerCommand('codeSnippetCollector.revealSnippet', (node: SnippetTreeNode) => 
+            (node?.kind === 'snippet' || node?.kind === 'step') && revealSnippet(node.snippet)),
+        vscode.commands.registerCommand('codeSnippetCollector.editSnippet', editTreeSnippet),
+        vscode.commands.registerCommand('codeSnippetCollector.copySnippet', copyTreeSnippet),
+        vscode.commands.registerCommand('codeSnippetCollector.deleteSnippets', deleteTreeSnippets),
+        vscode.commands.registerCommand('codeSnippetCollector.exportSelection', exportTreeSelection),
+        vscode.commands.registerCommand('codeSnippetCollector.newTopic', newTopic),
+        vscode.commands.registerCommand('codeSnippetCollector.addToTopic', addToTopic),
+        vscode.commands.registerCommand('codeSnippetCollector.editTopic', editTopic),
+        vscode.commands.registerCommand('codeSnippetCollector.removeTopicStep', removeTopicStep),
         vscode.commands.registerCommand('dokumenter.editDescription', (line: number, filePath: string) => 
             snippetDescriptionLensProvider.handleEditDescription(line, filePath)),
         vscode.commands.registerCommand('dokumenter.deleteDescription', (line: number, filePath: string) => 
@@ -79,8 +160,12 @@ export function activate(context: vscode.ExtensionContext) {
             snippetDescriptionLensProvider.handleEditExplanation(line, filePath)),
         vscode.commands.registerCommand('dokumenter.deleteExplanation', (line: number, filePath: string) => 
             snippetDescriptionLensProvider.handleDeleteExplanation(line, filePath)),
+        vscode.commands.registerCommand('dokumenter.editTags', (line: number, filePath: string) => 
+            snippetDescriptionLensProvider.handleEditTags(line, filePath)),
         vscode.commands.registerCommand('dokumenter.copySnippet', (line: number, filePath: string) => 
-            snippetDescriptionLensProvider.handleCopySnippet(line, filePath))
+            snippetDescriptionLensProvider.handleCopySnippet(line, filePath)),
+        vscode.commands.registerCommand('dokumenter.showSnippetDrift', (line: number, filePath: string) => 
+            snippetDescriptionLensProvider.handleShowDrift(line, filePath))
     );
 
     // --- Status Bar ---
@@ -89,6 +174,10 @@ export function activate(context: vscode.ExtensionContext) {
     clearStatusBarItem.text = `$(clear-all) Snippets`;
     clearStatusBarItem.tooltip = `Clear ${snippetManager.getSnippetsCount()} Snippet(s) & All Highlights`;
     context.subscriptions.push(clearStatusBarItem);
+
+    collectionStatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 101);
+    collectionStatusBarItem.command = 'codeSnippetCollector.switchCollection';
+    context.subscriptions.push(collectionStatusBarItem);
     
     // --- Event Listeners ---
     context.subscriptions.push(
@@ -99,13 +188,24 @@ export function activate(context: vscode.ExtensionContext) {
             }
             codeLensProvider.clear();
         }),
+        vscode.window.onDidChangeVisibleTextEditors(editors => {
+            editors.forEach(editor => snippetManager.updateDecorationsForEditor(editor));
+        }),
         vscode.workspace.onDidChangeTextDocument(handleTextChange),
+        vscode.workspace.onDidOpenTextDocument(document => snippetManager.reanchorSnippetsInDocument(document)),
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('codeSnippetCollector.tagColors')) {
+                snippetManager.setTagColors(getTagColors());
+            }
+        }),
+        vscode.workspace.onDidRenameFiles(event => snippetManager.handleFileRenames(event)),
+        vscode.workspace.onDidDeleteFiles(event => snippetManager.handleFileDeletes(event)),
         snippetManager
     );
 
-    if (vscode.window.activeTextEditor) {
-        snippetManager.updateDecorationsForEditor(vscode.window.activeTextEditor);
-    }
+    // Restore the collection from the previous session; this also refreshes visible editors
+    snippetManager.setTagColors(getTagColors());
+    snippetManager.loadPersistedSnippets();
     updateClearButtonVisibility();
 }
 
@@ -117,15 +217,17 @@ async function quickAdd(selections: vscode.Selection | vscode.Selection[]) {
     if (!editor) return;
 
     const selectionsArray = Array.isArray(selections) ? selections : [selections];
+    const symbols = await findSymbolPaths(editor, selectionsArray);
     
     if (selectionsArray.length === 1) {
         const description = await vscode.window.showInputBox({
             prompt: "Enter a brief description for this snippet",
             placeHolder: `e.g., Function to parse user data`,
+            value: symbols[0]
         });
 
         if (description) {
-            snippetManager.addSnippet(editor, selectionsArray[0], description);
+            snippetManager.addSnippet(editor, selectionsArray[0], description, undefined, undefined, symbols[0]);
             vscode.window.showInformationMessage(`Snippet saved! Total in collection: ${snippetManager.getSnippetsCount()}`);
             codeLensProvider.setSnippetsLength(snippetManager.getSnippetsCount());
             updateClearButtonVisibility();
@@ -143,12 +245,13 @@ async function quickAdd(selections: vscode.Selection | vscode.Selection[]) {
             const description = await vscode.window.showInputBox({
                 prompt: `Enter a description for all ${selectionsArray.length} snippets`,
                 placeHolder: `e.g., Related utility functions`,
+                value: symbols.every(symbol => symbol === symbols[0]) ? symbols[0] : undefined
             });
 
             if (description) {
                 // Store all snippets with the same base description (no numbering)
                 for (let i = 0; i < selectionsArray.length; i++) {
-                    snippetManager.addSnippet(editor, selectionsArray[i], description);
+                    snippetManager.addSnippet(editor, selectionsArray[i], description, undefined, undefined, symbols[i]);
                 }
                 vscode.window.showInformationMessage(`${selectionsArray.length} snippets saved! Total in collection: ${snippetManager.getSnippetsCount()}`);
                 updateClearButtonVisibility();
@@ -158,10 +261,11 @@ async function quickAdd(selections: vscode.Selection | vscode.Selection[]) {
                 const description = await vscode.window.showInputBox({
                     prompt: `Enter description for snippet ${i + 1} of ${selectionsArray.length}`,
                     placeHolder: `e.g., Helper function for validation`,
+                    value: symbols[i]
                 });
 
                 if (description) {
-                    snippetManager.addSnippet(editor, selectionsArray[i], description);
+                    snippetManager.addSnippet(editor, selectionsArray[i], description, undefined, undefined, symbols[i]);
                 } else {
                     break; // User cancelled, stop processing remaining selections
                 }
@@ -179,13 +283,39 @@ async function addWithDetails(selections: vscode.Selection | vscode.Selection[])
 
     const selectionsArray = Array.isArray(selections) ? selections : [selections];
 
+    const symbols = await findSymbolPaths(editor, selectionsArray);
     if (selectionsArray.length === 1) {
-        await showDetailsPanel(editor, selectionsArray[0]);
+        await showDetailsPanel(editor, selectionsArray[0], symbols[0]);
     } else {
-        await showMultiDetailsPanel(editor, selectionsArray);
+        await showMultiDetailsPanel(editor, selectionsArray, symbols);
     }
 }
 
+// Dotted paths of the functions or types around each selection, used as default descriptions
+async function findSymbolPaths(editor: vscode.TextEditor, selections: vscode.Selection[]): Promise<(string | undefined)[]> {
+    return Promise.all(selections.map(async selection => (await findEnclosingSymbol(editor.document, selection))?.path));
+}
+
+async function expandToSymbol() {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) return;
+
+    const symbols = await Promise.all(editor.selections.map(selection => findEnclosingSymbol(editor.document, selection)));
+    if (symbols.every(symbol => !symbol)) {
+        vscode.window.showWarningMessage('No function, method or type was found around the selection.');
+        return;
+    }
+
+    // Whole lines, so the snippet keeps the symbol's indentation
+    editor.selections = editor.selections.map((selection, i) => {
+        const symbol = symbols[i];
+        if (!symbol) return selection;
+        const endLine = symbol.range.end.line;
+        return new vscode.Selection(symbol.range.start.line, 0, endLine, editor.document.lineAt(endLine).text.length);
+    });
+    editor.revealRange(editor.selection, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+}
+
 async function updateSnippetDetails() {
     const editor = vscode.window.activeTextEditor;
     if (!editor) return;
@@ -202,7 +332,7 @@ async function updateSnippetDetails() {
     await showUpdatePanel(editor, result.snippet, result.index);
 }
 
-async function showDetailsPanel(editor: vscode.TextEditor, selection: vscode.Selection) {
+async function showDetailsPanel(editor: vscode.TextEditor, selection: vscode.Selection, symbol?: string) {
     return new Promise<void>((resolve) => {
         const column = editor.viewColumn ? editor.viewColumn + 1 : vscode.ViewColumn.Two;
         if (detailsPanel) detailsPanel.dispose();
@@ -215,14 +345,14 @@ async function showDetailsPanel(editor: vscode.TextEditor, selection: vscode.Sel
         );
 
         const selectedCode = editor.document.getText(selection);
-        detailsPanel.webview.html = getAddSnippetWebviewContent(selectedCode);
+        detailsPanel.webview.html = getAddSnippetWebviewContent(selectedCode, symbol);
 
         detailsPanel.webview.onDidReceiveMessage(
             async message => {
                 switch (message.command) {
                     case 'save':
                         if (message.description) {
-                            snippetManager.addSnippet(editor, selection, message.description, message.explanation);
+                            snippetManager.addSnippet(editor, selection, message.description, message.explanation, parseTags(message.tags), symbol);
                             vscode.window.showInformationMessage(`Snippet saved! Total in collection: ${snippetManager.getSnippetsCount()}`);
                             updateClearButtonVisibility();
                         }
@@ -246,7 +376,7 @@ async function showDetailsPanel(editor: vscode.TextEditor, selection: vscode.Sel
     });
 }
 
-async function showMultiDetailsPanel(editor: vscode.TextEditor, selections: vscode.Selection[]) {
+async function showMultiDetailsPanel(editor: vscode.TextEditor, selections: vscode.Selection[], symbols: (string | undefined)[] = []) {
     return new Promise<void>((resolve) => {
         const column = editor.viewColumn ? editor.viewColumn + 1 : vscode.ViewColumn.Two;
         if (detailsPanel) detailsPanel.dispose();
@@ -258,7 +388,7 @@ async function showMultiDetailsPanel(editor: vscode.TextEditor, selections: vsco
             { enableScripts: true }
         );
 
-        detailsPanel.webview.html = getMultiSnippetWebviewContent(editor, selections);
+        detailsPanel.webview.html = getMultiSnippetWebviewContent(editor, selections, symbols.map(symbol => symbol || ''));
 
         detailsPanel.webview.onDidReceiveMessage(
             async message => {
@@ -268,7 +398,7 @@ async function showMultiDetailsPanel(editor: vscode.TextEditor, selections: vsco
                             const desc = message.descriptions[i];
                             const expl = message.explanations[i];
                             if (desc) {
-                                snippetManager.addSnippet(editor, selections[i], desc, expl);
+                                snippetManager.addSnippet(editor, selections[i], desc, expl, parseTags(message.tags?.[i]), symbols[i]);
                             }
                         }
                         vscode.window.showInformationMessage(`${selections.length} snippets saved! Total in collection: ${snippetManager.getSnippetsCount()}`);
@@ -312,7 +442,7 @@ async function showUpdatePanel(editor: vscode.TextEditor, snippet: any, index: n
                 switch (message.command) {
                     case 'save':
                         if (message.description) {
-                            snippetManager.updateSnippet(index, message.description, message.explanation);
+                            snippetManager.updateSnippet(index, message.description, message.explanation, parseTags(message.tags));
                             vscode.window.showInformationMessage('Snippet details updated successfully!');
                         }
                         detailsPanel?.dispose();
@@ -342,15 +472,18 @@ async function quickSaveSnippetsToFile() {
         return;
     }
 
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-    if (!workspaceFolder) {
+    if (!vscode.workspace.workspaceFolders?.length) {
         vscode.window.showErrorMessage('Cannot save, please open a workspace folder.');
         return;
     }
 
+    const workspaceFolder = await pickOutputFolder(snippetManager.getAllSnippets());
+    if (!workspaceFolder) return;
+
     const parentFolderName = path.basename(workspaceFolder.uri.fsPath);
+    const collectionName = toFileName(snippetManager.getActiveCollection().name);
     const timestamp = new Date().toISOString().replace(/[-:.]/g, '').replace('T', '_').slice(0, 15);
-    const fileName = `${parentFolderName}_${timestamp}.md`;
+    const fileName = `${parentFolderName}_${collectionName}_${timestamp}.md`;
     const fileUri = vscode.Uri.joinPath(workspaceFolder.uri, "markdowns", fileName);
     const markdownFolderPath = path.join(workspaceFolder.uri.fsPath, "markdowns");
     if (!fs.existsSync(markdownFolderPath)) {
@@ -359,6 +492,129 @@ async function quickSaveSnippetsToFile() {
     await saveAndFinalize(fileUri);
 }
 
+async function copyAllAs() {
+    codeLensProvider.clear();
+    if (snippetManager.getSnippetsCount() === 0) {
+        vscode.window.showWarningMessage('No snippets to copy.');
+        return;
+    }
+
+    const exporter = await pickExporter();
+    if (!exporter) return;
+    const selection = await pickExportSelection(exporter.id === 'markdown');
+    if (!selection) return;
+
+    try {
+        const { context, uncommittedFiles } = await createPermalinkContext(selection.snippets);
+        warnAboutUncommittedFiles(uncommittedFiles);
+        warnAboutDroppedTopics(exporter, selection);
+        await vscode.env.clipboard.writeText(exporter.render(selection.snippets, { ...context, ...getExportDetails(selection) }));
+        vscode.window.showInformationMessage(`${selection.snippets.length} snippets copied to clipboard as ${exporter.name}!`);
+    } catch (error: any) {
+        vscode.window.showErrorMessage(`Failed to copy snippets: ${error.message}`);
+    }
+}
+
+async function pickExporter(): Promise<SnippetExporter | undefined>;
+async function pickExporter(includeDirectories: true): Promise<SnippetExporter | DirectoryExporter | undefined>;
+async function pickExporter(includeDirectories = false): Promise<SnippetExporter | DirectoryExporter | undefined> {
+    const templates = await loadTemplateExporters();
+    // Broken templates are reported but left out, so nothing is written from them
+    void reportTemplateErrors(templates.errors);
+
+    const items: (vscode.QuickPickItem & { exporter?: SnippetExporter | DirectoryExporter })[] = getExporters().map(exporter => ({
+        label: exporter.name,
+        description: `.${exporter.fileExtension}`,
+        exporter
+    }));
+    if (includeDirectories) {
+        items.push({ label: 'Folders', kind: vscode.QuickPickItemKind.Separator });
+        getDirectoryExporters().forEach(exporter => items.push({
+            label: `$(folder) ${exporter.name}`,
+            description: exporter.description,
+            exporter
+        }));
+    }
+    if (templates.exporters.length > 0) {
+        items.push({ label: 'Templates', kind: vscode.QuickPickItemKind.Separator });
+        templates.exporters.forEach(exporter => items.push({
+            label: `$(file-code) ${exporter.name}`,
+            description: `.${exporter.fileExtension} template`,
+            exporter
+        }));
+    }
+
+    const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Select the export format' });
+    return picked?.exporter;
+}
+
+interface ExportSelection {
+    snippets: CodeSnippet[];
+    groupByTag: boolean;
+}
+
+function getFullSelection(): ExportSelection {
+    return { snippets: snippetManager.getAllSnippets(), groupByTag: false };
+}
+
+// Only asked when the collection uses tags
+async function pickExportSelection(allowGroupByTag: boolean): Promise<ExportSelection | undefined> {
+    const all = snippetManager.getAllSnippets();
+    const tags = getSnippetTags(all);
+    if (tags.length === 0) return getFullSelection();
+
+    const modes = [
+        { label: '$(list-flat) All snippets', mode: 'all' },
+        { label: '$(filter) Only snippets tagged...', mode: 'include' },
+        { label: '$(exclude) Without snippets tagged...', mode: 'exclude' },
+        ...(allowGroupByTag ? [{ label: '$(tag) All snippets, grouped by tag', mode: 'group' }] : [])
+    ];
+    const picked = await vscode.window.showQuickPick(modes, { placeHolder: 'Select which snippets to export' });
+    if (!picked) return undefined;
+    if (picked.mode === 'all' || picked.mode === 'group') {
+        return { snippets: all, groupByTag: picked.mode === 'group' };
+    }
+
+    const pickedTags = await vscode.window.showQuickPick(tags, {
+        canPickMany: true,
+        placeHolder: picked.mode === 'include' ? 'Export snippets with any of these tags' : 'Leave out snippets with any of these tags'
+    });
+    if (!pickedTags || pickedTags.length === 0) return undefined;
+
+    const snippets = picked.mode === 'include'
+        ? filterSnippetsByTags(all, pickedTags)
+        : filterSnippetsByTags(all, [], pickedTags);
+    if (snippets.length === 0) {
+        vscode.window.showWarningMessage('No snippets match the selected tags.');
+        return undefined;
+    }
+    return { snippets, groupByTag: false };
+}
+
+function getExportDetails(selection: ExportSelection) {
+    return {
+        title: snippetManager.getActiveCollection().name,
+        groupByTag: selection.groupByTag,
+        topics: snippetManager.getExportTopics(selection.snippets)
+    };
+}
+
+// Snippets left out by a tag filter are kept for a later export
+function clearIfFullyExported(selection: ExportSelection) {
+    if (selection.snippets.length === snippetManager.getSnippetsCount()) {
+        clearAll(false);
+    }
+}
+
+// Generated files go to the folder of the snippets; with several folders involved, let the user decide
+async function pickOutputFolder(snippets: CodeSnippet[]): Promise<vscode.WorkspaceFolder | undefined> {
+    const folders = vscode.workspace.workspaceFolders || [];
+    if (folders.length <= 1) return folders[0];
+    const snippetFolders = new Set(snippets.map(snippet => resolveWorkspaceFolder(snippet)));
+    if (snippetFolders.size === 1) return [...snippetFolders][0];
+    return vscode.window.showWorkspaceFolderPick({ placeHolder: 'Select the workspace folder to save the snippets in' });
+}
+
 async function saveAllAs() {
     codeLensProvider.clear();
     if (snippetManager.getSnippetsCount() === 0) {
@@ -366,19 +622,725 @@ async function saveAllAs() {
         return;
     }
 
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-    if (!workspaceFolder) {
+    if (!vscode.workspace.workspaceFolders?.length) {
         vscode.window.showErrorMessage('Cannot save, please open a workspace folder.');
         return;
     }
 
+    const exporter = await pickExporter(true);
+    if (!exporter) return;
+    const selection = await pickExportSelection(exporter.id === 'markdown');
+    if (!selection) return;
+    const workspaceFolder = await pickOutputFolder(selection.snippets);
+    if (!workspaceFolder) return;
+
+    await exportSelectionAs(workspaceFolder, exporter, selection);
+}
+
+// Asks where to write the export, a folder for directory exporters and a file otherwise
+async function exportSelectionAs(workspaceFolder: vscode.WorkspaceFolder, exporter: SnippetExporter | DirectoryExporter, selection: ExportSelection) {
+    if ('renderFiles' in exporter) {
+        const parent = await vscode.window.showOpenDialog({
+            defaultUri: workspaceFolder.uri,
+            canSelectFiles: false,
+            canSelectFolders: true,
+            openLabel: 'Export Here'
+        });
+        if (parent?.[0]) {
+            await saveDirectoryAndFinalize(vscode.Uri.joinPath(parent[0], toFileName(snippetManager.getActiveCollection().name)), exporter, selection);
+        }
+        return;
+    }
+
     const fileUri = await vscode.window.showSaveDialog({
-        defaultUri: vscode.Uri.joinPath(workspaceFolder.uri, 'code-snippets.md'),
-        filters: { 'Markdown': ['md'] }
+        defaultUri: vscode.Uri.joinPath(workspaceFolder.uri, exporter.defaultFolder || '', `${toFileName(snippetManager.getActiveCollection().name)}.${exporter.fileExtension}`),
+        filters: { [exporter.name]: [exporter.fileExtension] }
     });
 
     if (fileUri) {
-        await saveAndFinalize(fileUri);
+        await saveAndFinalize(fileUri, exporter, selection);
+    }
+}
+
+async function appendToDocument(uri?: vscode.Uri) {
+    codeLensProvider.clear();
+    if (snippetManager.getSnippetsCount() === 0) {
+        vscode.window.showWarningMessage('No snippets to append.');
+        return;
+    }
+
+    let fileUri = uri;
+    if (!fileUri) {
+        const workspaceFolder = await pickOutputFolder(snippetManager.getAllSnippets());
+        const picked = await vscode.window.showOpenDialog({
+            defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder.uri, 'markdowns') : undefined,
+            canSelectMany: false,
+            filters: { 'Markdown': ['md'] },
+            openLabel: 'Append'
+        });
+        fileUri = picked?.[0];
+    }
+    if (!fileUri) return;
+    const selection = await pickExportSelection(false);
+    if (!selection) return;
+
+    try {
+        const existing = new TextDecoder().decode(await vscode.workspace.fs.readFile(fileUri));
+        const { context, uncommittedFiles } = await createPermalinkContext(selection.snippets);
+        warnAboutUncommittedFiles(uncommittedFiles);
+        const { content, added, skipped } = mergeIntoMarkdown(existing, selection.snippets, context);
+
+        const skippedText = skipped > 0 ? ` ${skipped} already in the document were skipped.` : '';
+        if (added === 0) {
+            vscode.window.showInformationMessage(`Nothing to append to ${path.basename(fileUri.fsPath)}.${skippedText}`);
+            return;
+        }
+
+        await vscode.workspace.fs.writeFile(fileUri, new TextEncoder().encode(content));
+        vscode.window.showInformationMessage(`${added} snippet group(s) appended to ${path.basename(fileUri.fsPath)}.${skippedText}`);
+
+        clearIfFullyExported(selection);
+
+        const doc = await vscode.workspace.openTextDocument(fileUri);
+        await vscode.window.showTextDocument(doc);
+    } catch (error: any) {
+        vscode.window.showErrorMessage(`Failed to append snippets: ${error.message}`);
+    }
+}
+
+// Opens the snippet's file, loading it when it is not open yet, and selects the snippet
+async function revealSnippet(snippet: CodeSnippet, options: vscode.TextDocumentShowOptions = {}): Promise<vscode.TextEditor | undefined> {
+    const fileUri = resolveSnippetUri(snippet);
+    if (!fileUri) {
+        vscode.window.showErrorMessage(`Cannot find ${snippet.relativePath}, please open its workspace folder.`);
+        return undefined;
+    }
+
+    try {
+        const document = await vscode.workspace.openTextDocument(fileUri);
+        const editor = await vscode.window.showTextDocument(document, { preview: true, ...options });
+        if (snippet.orphaned) {
+            vscode.window.showWarningMessage(`"${snippet.description}" could not be found in ${path.basename(fileUri.fsPath)} any more.`);
+            return editor;
+        }
+        editor.selection = new vscode.Selection(snippet.range.start, snippet.range.end);
+        editor.revealRange(snippet.range, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+        return editor;
+    } catch (error: any) {
+        vscode.window.showErrorMessage(`Failed to open ${getDisplayPath(snippet)}: ${error.message}`);
+        return undefined;
+    }
+}
+
+// Tree commands get the clicked node and every selected node; from elsewhere they fall back to the view's selection
+function getTreeSelection(node?: SnippetTreeNode, nodes?: SnippetTreeNode[]): CodeSnippet[] {
+    if (nodes && nodes.length > 0) return getNodeSnippets(nodes);
+    if (node) return getNodeSnippets([node]);
+    return getNodeSnippets([...snippetTreeView.selection]);
+}
+
+async function editTreeSnippet(node?: SnippetTreeNode) {
+    const snippet = getTreeSelection(node)[0];
+    if (!snippet) return;
+
+    const editor = await revealSnippet(snippet);
+    if (!editor) return;
+    await showUpdatePanel(editor, snippet, snippetManager.getAllSnippets().indexOf(snippet));
+}
+
+async function copyTreeSnippet(node?: SnippetTreeNode) {
+    const snippet = getTreeSelection(node)[0];
+    const fileUri = snippet && resolveSnippetUri(snippet);
+    if (!fileUri) return;
+
+    if (snippet.orphaned) {
+        vscode.window.showWarningMessage(`"${snippet.description}" could not be found in its file; re-anchor it before copying.`);
+        return;
+    }
+    await snippetDescriptionLensProvider.handleCopySnippet(snippet.range.start.line, fileUri.fsPath);
+}
+
+async function deleteTreeSnippets(node?: SnippetTreeNode, nodes?: SnippetTreeNode[]) {
+    const selected = getTreeSelection(node, nodes);
+    if (selected.length === 0) return;
+
+    const confirm = await vscode.window.showWarningMessage(
+        selected.length === 1 ? `Delete snippet "${selected[0].description}"?` : `Delete ${selected.length} snippets?`,
+        { modal: true },
+        'Delete'
+    );
+    if (confirm !== 'Delete') return;
+
+    const remaining = snippetManager.getAllSnippets().filter(snippet => !selected.includes(snippet));
+    snippetManager.updateSnippetsFromExternal(remaining);
+    codeLensProvider.clear();
+    vscode.window.showInformationMessage(`${selected.length} snippet(s) deleted.`);
+}
+
+async function exportTreeSelection(node?: SnippetTreeNode, nodes?: SnippetTreeNode[]) {
+    const snippets = getTreeSelection(node, nodes);
+    if (snippets.length === 0) {
+        vscode.window.showWarningMessage('Select the snippets, files or folders to export in the Snippets view.');
+        return;
+    }
+
+    if (!vscode.workspace.workspaceFolders?.length) {
+        vscode.window.showErrorMessage('Cannot save, please open a workspace folder.');
+        return;
+    }
+
+    const exporter = await pickExporter(true);
+    if (!exporter) return;
+    const workspaceFolder = await pickOutputFolder(snippets);
+    if (!workspaceFolder) return;
+    await exportSelectionAs(workspaceFolder, exporter, { snippets, groupByTag: false });
+}
+
+async function searchCollection() {
+    const snippets = snippetManager.getAllSnippets();
+    if (snippets.length === 0) {
+        vscode.window.showInformationMessage('No snippets in the collection to search.');
+        return;
+    }
+
+    type SearchItem = vscode.QuickPickItem & { snippet: CodeSnippet };
+    const quickPick = vscode.window.createQuickPick<SearchItem>();
+    quickPick.placeholder = 'Search snippet descriptions, explanations, code and paths';
+    quickPick.matchOnDescription = true;
+    quickPick.matchOnDetail = true;
+
+    // Results come from searchSnippets; alwaysShow keeps the Quick Pick from filtering them again by label
+    const showResults = (query: string) => {
+        quickPick.items = searchSnippets(snippets, query).map(({ snippet, matchedLine }) => ({
+            label: snippet.orphaned ? `$(warning) ${snippet.description}` : snippet.description,
+            description: `${getDisplayPath(snippet)}:${formatLineRange(snippet)}`,
+            detail: matchedLine || snippet.explanation?.split('\n')[0] || snippet.code.split('\n')[0].trim(),
+            alwaysShow: true,
+            snippet
+        }));
+    };
+    showResults('');
+
+    quickPick.onDidChangeValue(showResults);
+    quickPick.onDidAccept(() => {
+        const picked = quickPick.selectedItems[0];
+        quickPick.hide();
+        if (picked) {
+            lastVisitedSnippet = picked.snippet;
+            revealSnippet(picked.snippet);
+        }
+    });
+    quickPick.onDidHide(() => quickPick.dispose());
+    quickPick.show();
+}
+
+// Moves through the collection in its order, across files, wrapping around at either end
+async function goToSnippet(step: 1 | -1) {
+    const snippets = snippetManager.getAllSnippets().filter(snippet => !snippet.orphaned);
+    if (snippets.length === 0) {
+        vscode.window.showInformationMessage('No snippets in the collection to go to.');
+        return;
+    }
+
+    const editor = vscode.window.activeTextEditor;
+    const atCursor = editor && snippetManager.findSnippetAtPosition(editor.document.uri.fsPath, editor.selection.active)?.snippet;
+    const reference = atCursor || lastVisitedSnippet;
+    const current = reference ? snippets.indexOf(reference) : -1;
+    const next = current === -1
+        ? (step === 1 ? 0 : snippets.length - 1)
+        : (current + step + snippets.length) % snippets.length;
+
+    lastVisitedSnippet = snippets[next];
+    if (await revealSnippet(snippets[next])) {
+        vscode.window.setStatusBarMessage(`Snippet ${next + 1} of ${snippets.length}: ${snippets[next].description}`, 3000);
+    }
+}
+
+// Snippets for a topic: the Snippets view selection when run from there, otherwise picked from the collection
+async function pickTopicSnippets(node?: SnippetTreeNode, nodes?: SnippetTreeNode[]): Promise<CodeSnippet[] | undefined> {
+    if (node) return getTreeSelection(node, nodes);
+
+    const picked = await vscode.window.showQuickPick(snippetManager.getAllSnippets().map(snippet => ({
+        label: snippet.description,
+        description: `${getDisplayPath(snippet)}:${formatLineRange(snippet)}`,
+        snippet
+    })), { canPickMany: true, placeHolder: 'Select the snippets of the topic, in collection order (reorder them later with Edit Topic)' });
+    return picked?.map(item => item.snippet);
+}
+
+async function newTopic(node?: SnippetTreeNode, nodes?: SnippetTreeNode[]) {
+    const snippets = await pickTopicSnippets(node, nodes);
+    if (snippets && snippets.length > 0) {
+        await createTopicFrom(snippets);
+    }
+}
+
+async function createTopicFrom(snippets: CodeSnippet[]) {
+    const name = await vscode.window.showInputBox({
+        prompt: 'Enter a name for the topic',
+        placeHolder: 'e.g., Order creation flow',
+        validateInput: value => value.trim() ? undefined : 'Name cannot be empty'
+    });
+    if (!name) return;
+
+    const intro = await vscode.window.showInputBox({
+        prompt: 'Enter an introduction for the topic (optional)',
+        placeHolder: 'e.g., How a POST /orders request travels from the handler to the database'
+    });
+    if (intro === undefined) return;
+
+    snippetManager.createTopic(name.trim(), snippets, intro.trim() || undefined);
+    vscode.window.showInformationMessage(`Topic "${name.trim()}" created with ${snippets.length} step(s).`);
+}
+
+async function addToTopic(node?: SnippetTreeNode, nodes?: SnippetTreeNode[]) {
+    let snippets = node ? getTreeSelection(node, nodes) : [];
+    const editor = vscode.window.activeTextEditor;
+    if (!node && editor) {
+        const atCursor = snippetManager.findSnippetAtPosition(editor.document.uri.fsPath, editor.selection.active);
+        snippets = atCursor ? [atCursor.snippet] : [];
+    }
+    if (snippets.length === 0) {
+        vscode.window.showWarningMessage('Place the cursor in a snippet, or select snippets in the Snippets view.');
+        return;
+    }
+
+    const picked = await vscode.window.showQuickPick([
+        ...snippetManager.getTopics().map(topic => ({ label: topic.name, description: `${topic.snippetIds.length} step(s)`, topic: topic as SnippetTopic | undefined })),
+        { label: '$(add) New Topic...', description: '', topic: undefined }
+    ], { placeHolder: `Add ${snippets.length} snippet(s) to the end of a topic` });
+    if (!picked) return;
+
+    if (!picked.topic) {
+        await createTopicFrom(snippets);
+        return;
+    }
+    const added = snippets.map(snippet => snippet.id!).filter(id => !picked.topic!.snippetIds.includes(id));
+    snippetManager.updateTopic(picked.topic.id, { snippetIds: [...picked.topic.snippetIds, ...added] });
+    vscode.window.showInformationMessage(`${added.length} step(s) added to "${picked.topic.name}".`);
+}
+
+async function editTopic(node?: SnippetTreeNode) {
+    let topic = node?.kind === 'topic' || node?.kind === 'step' ? node.topic : undefined;
+    if (!topic) {
+        const topics = snippetManager.getTopics();
+        if (topics.length === 0) {
+            vscode.window.showInformationMessage('The collection has no topics yet. Use "New Topic" to create one.');
+            return;
+        }
+        topic = (await vscode.window.showQuickPick(topics.map(t => ({ label: t.name, description: `${t.snippetIds.length} step(s)`, topic: t })),
+            { placeHolder: 'Select the topic to edit' }))?.topic;
+    }
+    if (!topic) return;
+
+    const action = await vscode.window.showQuickPick([
+        { label: '$(edit) Rename', value: 'rename' },
+        { label: '$(note) Edit Introduction', value: 'intro' },
+        { label: '$(arrow-swap) Move a Step', value: 'move' },
+        { label: '$(remove) Remove Steps', value: 'remove' },
+        { label: '$(trash) Delete Topic', value: 'delete' }
+    ], { placeHolder: `Edit topic "${topic.name}"` });
+    if (!action) return;
+
+    const steps = resolveTopics([topic], snippetManager.getAllSnippets())[0].snippets;
+    const stepItems = steps.map((snippet, index) => ({
+        label: `${index + 1}. ${snippet.description}`,
+        description: `${getDisplayPath(snippet)}:${formatLineRange(snippet)}`,
+        index
+    }));
+
+    switch (action.value) {
+        case 'rename': {
+            const name = await vscode.window.showInputBox({
+                prompt: 'Rename the topic',
+                value: topic.name,
+                validateInput: value => value.trim() ? undefined : 'Name cannot be empty'
+            });
+            if (name) snippetManager.updateTopic(topic.id, { name: name.trim() });
+            return;
+        }
+        case 'intro': {
+            const intro = await vscode.window.showInputBox({ prompt: 'Edit the introduction of the topic', value: topic.intro || '' });
+            if (intro !== undefined) snippetManager.updateTopic(topic.id, { intro: intro.trim() || undefined });
+            return;
+        }
+        case 'move': {
+            const step = await vscode.window.showQuickPick(stepItems, { placeHolder: 'Select the step to move' });
+            if (!step) return;
+            const target = await vscode.window.showQuickPick(stepItems.filter(item => item.index !== step.index), {
+                placeHolder: `Move "${steps[step.index].description}" to the position of...`
+            });
+            if (!target) return;
+            const ids = steps.map(snippet => snippet.id!);
+            const [moved] = ids.splice(step.index, 1);
+            ids.splice(target.index, 0, moved);
+            snippetManager.updateTopic(topic.id, { snippetIds: ids });
+            return;
+        }
+        case 'remove': {
+            const removed = await vscode.window.showQuickPick(stepItems, { canPickMany: true, placeHolder: 'Select the steps to remove from the topic' });
+            if (!removed || removed.length === 0) return;
+            const indexes = new Set(removed.map(item => item.index));
+            snippetManager.updateTopic(topic.id, { snippetIds: steps.filter((_, index) => !indexes.has(index)).map(snippet => snippet.id!) });
+            return;
+        }
+        case 'delete': {
+            const confirm = await vscode.window.showWarningMessage(
+                `Delete topic "${topic.name}"? Its snippets stay in the collection.`,
+                { modal: true },
+                'Delete'
+            );
+            if (confirm === 'Delete') snippetManager.deleteTopic(topic.id);
+            return;
+        }
+    }
+}
+
+function removeTopicStep(node?: SnippetTreeNode) {
+    if (node?.kind !== 'step') return;
+    snippetManager.updateTopic(node.topic.id, { snippetIds: node.topic.snippetIds.filter(id => id !== node.snippet.id) });
+}
+
+// Plays the whole collection, or one of its topics in the topic's order
+async function startPlayback() {
+    const snippets = snippetManager.getAllSnippets();
+    if (snippets.length === 0) {
+        vscode.window.showInformationMessage('No snippets in the collection to play.');
+        return;
+    }
+
+    const collectionName = snippetManager.getActiveCollection().name;
+    const topics = snippetManager.getExportTopics(snippets).filter(topic => topic.snippets.length > 0);
+    let title = collectionName;
+    let steps = snippets;
+    if (topics.length > 0) {
+        const picked = await vscode.window.showQuickPick([
+            { label: `$(library) ${collectionName}`, description: `${snippets.length} snippet(s)`, name: collectionName, steps: snippets },
+            ...topics.map(topic => ({ label: `$(list-ordered) ${topic.name}`, description: `${topic.snippets.length} step(s)`, name: topic.name, steps: topic.snippets }))
+        ], { placeHolder: 'Select what to play' });
+        if (!picked) return;
+        title = picked.name;
+        steps = picked.steps;
+    }
+
+    playbackSession?.stop();
+    playbackSession = new PlaybackSession(title, steps, revealSnippet, () => playbackSession = undefined);
+    await playbackSession.start();
+}
+
+function openCollectionEditor() {
+    if (!collectionEditorPanel) {
+        collectionEditorPanel = new CollectionEditorPanel(snippetManager, () => collectionEditorPanel = undefined);
+    }
+    collectionEditorPanel.reveal();
+}
+
+async function showOrphanedSnippets() {
+    const orphans = snippetManager.getOrphanedSnippets();
+    if (orphans.length === 0) {
+        vscode.window.showInformationMessage('No orphaned snippets in the collection.');
+        return;
+    }
+
+    const picked = await vscode.window.showQuickPick(orphans.map(snippet => ({
+        label: snippet.description,
+        description: getDisplayPath(snippet),
+        detail: snippet.code.split('\n')[0].trim(),
+        snippet
+    })), { placeHolder: `${orphans.length} snippet(s) could not be found in their files` });
+    if (!picked) return;
+
+    const action = await vscode.window.showQuickPick([
+        { label: '$(target) Anchor to Current Selection', value: 'anchor' },
+        { label: '$(trash) Delete Snippet', value: 'delete' }
+    ], { placeHolder: `What should happen to "${picked.snippet.description}"?` });
+    if (!action) return;
+
+    if (action.value === 'delete') {
+        snippetManager.removeSnippet(picked.snippet);
+        vscode.window.showInformationMessage('Snippet deleted successfully!');
+        return;
+    }
+
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.selection.isEmpty) {
+        vscode.window.showWarningMessage('Select the code this snippet should point to, then run the command again.');
+        return;
+    }
+    snippetManager.anchorSnippetToSelection(picked.snippet, editor);
+    vscode.window.showInformationMessage(`Snippet re-anchored to ${path.basename(editor.document.uri.fsPath)}.`);
+}
+
+async function checkSnippetDrift() {
+    const fileUris = new Map<string, vscode.Uri>();
+    for (const snippet of snippetManager.getAllSnippets()) {
+        const uri = resolveSnippetUri(snippet);
+        if (uri) fileUris.set(uri.toString(), uri);
+    }
+
+    let unreadableFiles = 0;
+    for (const fileUri of fileUris.values()) {
+        try {
+            const document = await vscode.workspace.openTextDocument(fileUri);
+            snippetManager.reanchorSnippetsInDocument(document);
+        } catch {
+            unreadableFiles++;
+        }
+    }
+
+    const driftedCount = snippetManager.getAllSnippets().filter(s => s.drifted).length;
+    const missingText = unreadableFiles > 0 ? ` ${unreadableFiles} file(s) could not be opened.` : '';
+    vscode.window.showInformationMessage(`${driftedCount} snippet(s) changed since they were captured.${missingText}`);
+}
+
+async function showSnippetDrift(snippet: CodeSnippet) {
+    const fileUri = resolveSnippetUri(snippet);
+    if (!fileUri) {
+        vscode.window.showErrorMessage(`Cannot find ${snippet.relativePath}, please open its workspace folder.`);
+        return;
+    }
+
+    const currentCode = await readCurrentCode(snippet, fileUri);
+    if (currentCode === undefined) return;
+
+    const fileName = path.basename(snippet.relativePath);
+    const capturedUri = snippetDiffContentProvider.createUri('captured', fileName, snippet.code);
+    const currentUri = snippetDiffContentProvider.createUri('current', fileName, currentCode);
+    await vscode.commands.executeCommand('vscode.diff', capturedUri, currentUri, `${snippet.description} (Captured ↔ Current)`);
+
+    const choice = await vscode.window.showInformationMessage(
+        `"${snippet.description}" has changed since it was captured.`,
+        'Accept New Code',
+        'Keep Captured Code'
+    );
+    if (!choice) return;
+
+    // The file may have been edited while the diff was open; resolve with the code it holds now
+    const resolvedCode = await readCurrentCode(snippet, fileUri);
+    if (resolvedCode !== undefined) {
+        snippetManager.resolveDrift(snippet, resolvedCode, choice === 'Accept New Code');
+    }
+}
+
+async function readCurrentCode(snippet: CodeSnippet, fileUri: vscode.Uri): Promise<string | undefined> {
+    try {
+        const document = await vscode.workspace.openTextDocument(fileUri);
+        return document.getText(snippet.range);
+    } catch (error: any) {
+        vscode.window.showErrorMessage(`Failed to open ${getDisplayPath(snippet)}: ${error.message}`);
+        return undefined;
+    }
+}
+
+async function newCollection() {
+    const name = await vscode.window.showInputBox({
+        prompt: 'Enter a name for the new snippet collection',
+        placeHolder: 'e.g., Auth flow',
+        validateInput: value => value.trim() ? undefined : 'Name cannot be empty'
+    });
+    if (!name) return;
+
+    snippetManager.createCollection(name.trim());
+    codeLensProvider.clear();
+    vscode.window.showInformationMessage(`Switched to new collection "${name.trim()}".`);
+}
+
+async function switchCollection() {
+    const activeId = snippetManager.getActiveCollection().id;
+    const items = snippetManager.getCollections().map(collection => ({
+        label: `${collection.id === activeId ? '$(check) ' : ''}${collection.name}`,
+        description: `${collection.snippets.length} snippet(s)`,
+        id: collection.id as string | undefined
+    }));
+    items.push({ label: '$(add) New Collection...', description: '', id: undefined });
+
+    const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Select the snippet collection to work on' });
+    if (!picked) return;
+
+    if (!picked.id) {
+        await newCollection();
+        return;
+    }
+    snippetManager.switchCollection(picked.id);
+    codeLensProvider.clear();
+}
+
+async function renameCollection() {
+    const collection = snippetManager.getActiveCollection();
+    const name = await vscode.window.showInputBox({
+        prompt: 'Rename the active snippet collection',
+        value: collection.name,
+        validateInput: value => value.trim() ? undefined : 'Name cannot be empty'
+    });
+    if (!name) return;
+
+    snippetManager.renameCollection(collection.id, name.trim());
+}
+
+async function deleteCollection() {
+    const picked = await vscode.window.showQuickPick(snippetManager.getCollections().map(collection => ({
+        label: collection.name,
+        description: `${collection.snippets.length} snippet(s)`,
+        collection
+    })), { placeHolder: 'Select the snippet collection to delete' });
+    if (!picked) return;
+
+    const confirm = await vscode.window.showWarningMessage(
+        `Delete collection "${picked.collection.name}" and its ${picked.collection.snippets.length} snippet(s)?`,
+        { modal: true },
+        'Delete'
+    );
+    if (confirm === 'Delete') {
+        snippetManager.deleteCollection(picked.collection.id);
+        codeLensProvider.clear();
+    }
+}
+
+async function openMarkdownAsCollection(uri?: vscode.Uri) {
+    let fileUri = uri;
+    if (!fileUri && vscode.window.activeTextEditor?.document.languageId === 'markdown') {
+        fileUri = vscode.window.activeTextEditor.document.uri;
+    }
+    if (!fileUri) {
+        const picked = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            filters: { 'Markdown': ['md'] },
+            openLabel: 'Open as Collection'
+        });
+        fileUri = picked?.[0];
+    }
+    if (!fileUri) return;
+
+    let content: string;
+    try {
+        content = new TextDecoder().decode(await vscode.workspace.fs.readFile(fileUri));
+    } catch (error: any) {
+        vscode.window.showErrorMessage(`Failed to read ${path.basename(fileUri.fsPath)}: ${error.message}`);
+        return;
+    }
+
+    const groups = parseSnippetMarkdown(content);
+    if (groups.length === 0) {
+        vscode.window.showWarningMessage(`No snippets found in ${path.basename(fileUri.fsPath)}.`);
+        return;
+    }
+
+    const { snippets, orphanedCount } = await importSnippetGroups(groups);
+    const name = path.basename(fileUri.fsPath, path.extname(fileUri.fsPath));
+    snippetManager.importCollection(name, snippets);
+    codeLensProvider.clear();
+
+    const orphanedText = orphanedCount > 0 ? ` ${orphanedCount} could not be found in their files and are marked as orphaned.` : '';
+    vscode.window.showInformationMessage(`Opened ${snippets.length} snippet(s) as collection "${name}".${orphanedText}`);
+}
+
+async function refreshDocumentationFile(uri?: vscode.Uri) {
+    let fileUri = uri;
+    if (!fileUri && vscode.window.activeTextEditor?.document.languageId === 'markdown') {
+        fileUri = vscode.window.activeTextEditor.document.uri;
+    }
+    if (!fileUri) {
+        const picked = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            filters: { 'Markdown': ['md'] },
+            openLabel: 'Refresh'
+        });
+        fileUri = picked?.[0];
+    }
+    if (!fileUri) return;
+
+    try {
+        const content = new TextDecoder().decode(await vscode.workspace.fs.readFile(fileUri));
+        const result = refreshDocumentation(content, readSourceForRefresh);
+        if (result.updated > 0) {
+            await vscode.workspace.fs.writeFile(fileUri, new TextEncoder().encode(result.content));
+        }
+
+        documentationDiagnostics.set(fileUri, result.problems.map(problem => {
+            const diagnostic = new vscode.Diagnostic(new vscode.Range(problem.line, 0, problem.line, 0), problem.message, vscode.DiagnosticSeverity.Warning);
+            diagnostic.source = 'Snippet Collector';
+            return diagnostic;
+        }));
+
+        const fileName = path.basename(fileUri.fsPath);
+        if (result.problems.length > 0) {
+            vscode.window.showWarningMessage(`Refreshed ${result.updated} code block(s) in ${fileName}; ${result.problems.length} could not be resolved (see Problems).`);
+            vscode.commands.executeCommand('workbench.actions.view.problems');
+        } else {
+            vscode.window.showInformationMessage(`Refreshed ${result.updated} code block(s) in ${fileName}; ${result.unchanged} already up to date.`);
+        }
+    } catch (error: any) {
+        vscode.window.showErrorMessage(`Failed to refresh ${path.basename(fileUri.fsPath)}: ${error.message}`);
+    }
+}
+
+// Prefers open documents so unsaved edits are picked up
+function readSourceForRefresh(displayPath: string): string | undefined {
+    const uri = resolveSnippetUri(parseDisplayPath(displayPath));
+    if (!uri) return undefined;
+
+    const openDocument = vscode.workspace.textDocuments.find(document => document.uri.fsPath === uri.fsPath);
+    if (openDocument) return openDocument.getText();
+    try {
+        return fs.readFileSync(uri.fsPath, 'utf8');
+    } catch {
+        return undefined;
+    }
+}
+
+async function importCodeTourAsCollection(uri?: vscode.Uri) {
+    let tourUri = uri;
+    if (!tourUri) {
+        const tours = await vscode.workspace.findFiles('{.tours,.vscode/tours,.github/tours}/**/*.tour');
+        const picked = tours.length > 0
+            ? await vscode.window.showQuickPick(tours.map(tour => ({
+                label: path.basename(tour.fsPath, '.tour'),
+                description: vscode.workspace.asRelativePath(tour),
+                tour
+            })), { placeHolder: 'Select the CodeTour to open as a collection' })
+            : undefined;
+        tourUri = picked?.tour;
+        if (!tourUri && tours.length === 0) {
+            const selected = await vscode.window.showOpenDialog({ canSelectMany: false, filters: { 'CodeTour': ['tour'] } });
+            tourUri = selected?.[0];
+        }
+    }
+    if (!tourUri) return;
+
+    try {
+        const { title, snippets, skippedSteps } = await importCodeTour(tourUri);
+        snippetManager.importCollection(title, snippets);
+        codeLensProvider.clear();
+
+        const skippedText = skippedSteps > 0 ? ` ${skippedSteps} step(s) without a readable file were skipped.` : '';
+        vscode.window.showInformationMessage(`Opened ${snippets.length} tour step(s) as collection "${title}".${skippedText}`);
+    } catch (error: any) {
+        vscode.window.showErrorMessage(`Failed to import ${path.basename(tourUri.fsPath)}: ${error.message}`);
+    }
+}
+
+async function importJsonAsCollection(uri?: vscode.Uri) {
+    let fileUri = uri;
+    if (!fileUri && vscode.window.activeTextEditor?.document.languageId === 'json') {
+        fileUri = vscode.window.activeTextEditor.document.uri;
+    }
+    if (!fileUri) {
+        const picked = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            filters: { 'JSON': ['json'] },
+            openLabel: 'Open as Collection'
+        });
+        fileUri = picked?.[0];
+    }
+    if (!fileUri) return;
+
+    try {
+        const { name, snippets, topics } = parseSnippetJson(new TextDecoder().decode(await vscode.workspace.fs.readFile(fileUri)));
+        snippetManager.importCollection(name, snippets, topics);
+        codeLensProvider.clear();
+        vscode.window.showInformationMessage(`Opened ${snippets.length} snippet(s) as collection "${name}".`);
+    } catch (error: any) {
+        vscode.window.showErrorMessage(`Failed to import ${path.basename(fileUri.fsPath)}: ${error.message}`);
     }
 }
 
@@ -399,13 +1361,36 @@ function clearAll(showMessage = true) {
 
 // --- Helper Functions ---
 
-async function saveAndFinalize(fileUri: vscode.Uri) {
-    const content = snippetManager.generateMarkdownContent();
+function warnAboutUncommittedFiles(files: string[]) {
+    if (files.length === 0) return;
+    const shown = files.slice(0, 3).join(', ') + (files.length > 3 ? ` and ${files.length - 3} more` : '');
+    vscode.window.showWarningMessage(`Permalinks may point at different code: ${shown} ${files.length === 1 ? 'has' : 'have'} uncommitted changes.`);
+}
+
+// Other formats list the snippets of topics as regular groups
+const TOPIC_EXPORTER_IDS = ['markdown', 'json'];
+
+function warnAboutDroppedTopics(exporter: SnippetExporter | DirectoryExporter, selection: ExportSelection) {
+    if (TOPIC_EXPORTER_IDS.includes(exporter.id)) return;
+    const topics = snippetManager.getExportTopics(selection.snippets).filter(topic => topic.snippets.length > 0);
+    if (topics.length === 0) return;
+    vscode.window.showWarningMessage(`${exporter.name} exports do not include topics: ${topics.length} topic(s) were left out and their snippets are listed as regular groups. Export as Markdown or JSON to keep them.`);
+}
+
+function toFileName(name: string): string {
+    return name.trim().replace(/[^a-zA-Z0-9-_]+/g, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'snippets';
+}
+
+async function saveAndFinalize(fileUri: vscode.Uri, exporter: SnippetExporter = new MarkdownExporter(), selection: ExportSelection = getFullSelection()) {
     try {
+        const { context, uncommittedFiles } = await createPermalinkContext(selection.snippets);
+        warnAboutUncommittedFiles(uncommittedFiles);
+        warnAboutDroppedTopics(exporter, selection);
+        const content = exporter.render(selection.snippets, { ...context, ...getExportDetails(selection) });
         await vscode.workspace.fs.writeFile(fileUri, new TextEncoder().encode(content));
-        vscode.window.showInformationMessage(`${snippetManager.getSnippetsCount()} snippets saved to ${path.basename(fileUri.fsPath)}`);
+        vscode.window.showInformationMessage(`${selection.snippets.length} snippets saved to ${path.basename(fileUri.fsPath)}`);
         
-        clearAll(false);
+        clearIfFullyExported(selection);
         
         const doc = await vscode.workspace.openTextDocument(fileUri);
         await vscode.window.showTextDocument(doc);
@@ -414,6 +1399,26 @@ async function saveAndFinalize(fileUri: vscode.Uri) {
     }
 }
 
+// Writes every file of a directory export into `folderUri`, replacing files of the same name
+async function saveDirectoryAndFinalize(folderUri: vscode.Uri, exporter: DirectoryExporter, selection: ExportSelection = getFullSelection()) {
+    try {
+        const { context, uncommittedFiles } = await createPermalinkContext(selection.snippets);
+        warnAboutUncommittedFiles(uncommittedFiles);
+        warnAboutDroppedTopics(exporter, selection);
+        const files = exporter.renderFiles(selection.snippets, { ...context, ...getExportDetails(selection) });
+        const removed = await writeDirectoryExport(folderUri, files);
+        const removedText = removed > 0 ? `, ${removed} page(s) of the previous export removed` : '';
+        vscode.window.showInformationMessage(`${selection.snippets.length} snippets saved as ${files.length} files in ${path.basename(folderUri.fsPath)}${removedText}`);
+
+        clearIfFullyExported(selection);
+
+        const doc = await vscode.workspace.openTextDocument(vscode.Uri.joinPath(folderUri, ...files[0].path.split('/')));
+        await vscode.window.showTextDocument(doc);
+    } catch (error: any) {
+        vscode.window.showErrorMessage(`Failed to save snippets: ${error.message}`);
+    }
+}
+
 function handleSelectionChange(event: vscode.TextEditorSelectionChangeEvent) {
     if (selectionDebounce) clearTimeout(selectionDebounce);
     
@@ -435,8 +1440,7 @@ function handleSelectionChange(event: vscode.TextEditorSelectionChangeEvent) {
 }
 
 function handleTextChange(event: vscode.TextDocumentChangeEvent) {
-    const filePath = event.document.uri.fsPath;
-    snippetManager.handleTextChange(filePath);
+    snippetManager.handleTextChange(event);
     updateClearButtonVisibility();
     // Update CodeLens provider with new snippet count after text changes
     codeLensProvider.setSnippetsLength(snippetManager.getSnippetsCount());
@@ -447,10 +1451,16 @@ function handleTextChange(event: vscode.TextDocumentChangeEvent) {
 
 function updateClearButtonVisibility() {
     const count = snippetManager.getSnippetsCount();
+    const collectionName = snippetManager.getActiveCollection().name;
+    collectionStatusBarItem.text = `$(library) ${collectionName}`;
+    collectionStatusBarItem.tooltip = `Active snippet collection: ${collectionName} (click to switch)`;
+    collectionStatusBarItem.show();
+    snippetTreeView.description = collectionName;
+
     // Remove duplicate setSnippetsLength call since it's now handled in the callback
     if (count > 0) {
         clearStatusBarItem.text = `$(clear-all) Snippets (${count})`;
-        clearStatusBarItem.tooltip = `Clear ${count} Snippet(s) & All Highlights`;
+        clearStatusBarItem.tooltip = `Clear ${count} Snippet(s) from "${collectionName}" & All Highlights`;
         clearStatusBarItem.show();
     } else {
         clearStatusBarItem.hide();
@@ -460,10 +1470,12 @@ function updateClearButtonVisibility() {
 export function deactivate() {
     if (selectionDebounce) clearTimeout(selectionDebounce);
     if (detailsPanel) detailsPanel.dispose();
+    if (collectionEditorPanel) collectionEditorPanel.dispose();
+    if (playbackSession) playbackSession.stop();
     if (snippetManager) snippetManager.dispose();
 }
 
-async function showEditPanel(snippet: any, onSave: (description: string, explanation?: string) => void) {
+async function showEditPanel(snippet: any, onSave: (description: string, explanation?: string, tags?: string[]) => void) {
     return new Promise<void>((resolve) => {
         const editor = vscode.window.activeTextEditor;
         if (!editor) {
@@ -488,7 +1500,7 @@ async function showEditPanel(snippet: any, onSave: (description: string, explana
                 switch (message.command) {
                     case 'save':
                         if (message.description) {
-                            onSave(message.description, message.explanation);
+                            onSave(message.description, message.explanation, parseTags(message.tags));
                             vscode.window.showInformationMessage('Snippet details updated successfully!');
                         }
                         detailsPanel?.dispose();
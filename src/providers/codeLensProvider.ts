@@ -26,6 +26,7 @@ export class SnippetCodeLensProvider implements vscode.CodeLensProvider {
         const lenses: vscode.CodeLens[] = [
             new vscode.CodeLens(range, { title: `⚡ Quick Add${selectionText}`, command: 'codeSnippetCollector.quickAdd', arguments: [this.activeSelections]}),
             new vscode.CodeLens(range, { title: `＋ Add with Details${selectionText}`, command: 'codeSnippetCollector.addWithDetails', arguments: [this.activeSelections]}),
+            new vscode.CodeLens(range, { title: `⤢ Expand to Symbol`, command: 'codeSnippetCollector.expandToSymbol', tooltip: 'Select the whole function, method or type around the selection' }),
         ];
 
         // --- Collection-level actions (only show if snippets exist) ---
@@ -33,6 +34,7 @@ export class SnippetCodeLensProvider implements vscode.CodeLensProvider {
             lenses.push(new vscode.CodeLens(range, { title: "|", command: ""})); // Separator
             lenses.push(new vscode.CodeLens(range, { title: `⚡ Quick Save All (${this.snippetsLength})`, command: 'codeSnippetCollector.quickSaveToFile' }));
             lenses.push(new vscode.CodeLens(range, { title: `💾 Save All As...`, command: 'codeSnippetCollector.saveAllAs' }));
+            lenses.push(new vscode.CodeLens(range, { title: `📎 Append to...`, command: 'codeSnippetCollector.appendToDocument' }));
             lenses.push(new vscode.CodeLens(range, { title: `🗑️ Clear All`, command: 'codeSnippetCollector.clearAll' }));
         }
 
@@ -0,0 +1,101 @@
+import * as vscode from 'vscode';
+import { AnchorRange, findAnchoredBlocks, formatAnchorLines, hasCodeAnchors, parseCodeAnchor, refreshCodeBlock } from '../services/docRefresher';
+import { parseDisplayPath, resolveSnippetUri } from '../services/workspacePaths';
+
+const FILE_LINE_PATTERN = /^\*\*File:\*\* `([^`]+)`/;
+
+/** Makes the `**File:**` references of exported markdown open the source at the snippet's lines */
+export class ExportedDocumentLinkProvider implements vscode.DocumentLinkProvider {
+    public provideDocumentLinks(document: vscode.TextDocument): vscode.DocumentLink[] {
+        const text = document.getText();
+        if (!hasCodeAnchors(text)) return [];
+
+        const lines = text.split(/\r?\n/);
+        const links: vscode.DocumentLink[] = [];
+
+        lines.forEach((line, index) => {
+            const file = line.match(FILE_LINE_PATTERN);
+            if (!file) return;
+
+            const uri = resolveSnippetUri(parseDisplayPath(file[1]));
+            if (!uri) return;
+
+            const start = line.indexOf(file[1]);
+            const link = new vscode.DocumentLink(
+                new vscode.Range(index, start, index, start + file[1].length),
+                withSelection(uri, findSectionRange(lines, index))
+            );
+            link.tooltip = 'Open source';
+            links.push(link);
+        });
+
+        return links;
+    }
+}
+
+/** Shows the current source of an anchored code block, marking code that changed since the export */
+export class ExportedCodeHoverProvider implements vscode.HoverProvider {
+    public async provideHover(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Hover | undefined> {
+        const text = document.getText();
+        if (!hasCodeAnchors(text)) return undefined;
+
+        const lines = text.split(/\r?\n/);
+        const block = findAnchoredBlocks(lines).find(b => b.codeEnd !== undefined && position.line >= b.line + 1 && position.line <= b.codeEnd);
+        if (!block) return undefined;
+
+        const { anchor } = block;
+        const uri = resolveSnippetUri(parseDisplayPath(anchor.path));
+        let source: string | undefined;
+        try {
+            source = uri ? (await vscode.workspace.openTextDocument(uri)).getText() : undefined;
+        } catch {
+            source = undefined;
+        }
+
+        const markdown = new vscode.MarkdownString();
+        if (!uri || source === undefined) {
+            markdown.appendMarkdown(`⚠ **Source not found:** \`${anchor.path}\``);
+            return new vscode.Hover(markdown);
+        }
+
+        const blockLines = lines.slice(block.codeStart, block.codeEnd);
+        const current = refreshCodeBlock(anchor, blockLines, source);
+        if (typeof current === 'string') {
+            markdown.appendMarkdown(`⚠ **Changed since export:** ${current}\n\n`);
+        } else if (current.code.join('\n') !== blockLines.join('\n')) {
+            markdown.appendMarkdown(`⚠ **Changed since export** — current source of \`${anchor.path}\` lines ${formatAnchorLines(current.anchor.ranges)}:\n\n`);
+            markdown.appendCodeblock(current.code.join('\n'), block.language);
+        } else {
+            const moved = formatAnchorLines(current.anchor.ranges) !== formatAnchorLines(anchor.ranges);
+            markdown.appendMarkdown(`✓ **Up to date** with \`${anchor.path}\`${moved ? `, now at lines ${formatAnchorLines(current.anchor.ranges)}` : ''}\n\n`);
+        }
+
+        const ranges = typeof current === 'string' ? anchor.ranges : current.anchor.ranges;
+        markdown.appendMarkdown(`\n\n[Open source](${withSelection(uri, ranges)})`);
+        return new vscode.Hover(markdown, new vscode.Range(block.line + 1, 0, block.codeEnd!, 0));
+    }
+}
+
+// Prefers the section's anchor, falling back to the "**Lines:**" field of sections appended before anchors existed
+function findSectionRange(lines: string[], fileLine: number): AnchorRange[] {
+    for (let i = fileLine + 1; i < lines.length && !/^#{1,6}\s/.test(lines[i]); i++) {
+        const anchor = parseCodeAnchor(lines[i]);
+        if (anchor) return anchor.ranges;
+
+        const lineRange = lines[i].match(/^\*\*Lines:\*\* (\d+)(?:-(\d+))?/);
+        if (lineRange) {
+            const startLine = parseInt(lineRange[1], 10);
+            const endLine = lineRange[2] ? parseInt(lineRange[2], 10) : startLine;
+            return [{ startLine, startColumn: 1, endLine: endLine + 1, endColumn: 1 }];
+        }
+    }
+    return [];
+}
+
+// VS Code selects `#L<line>,<column>-L<line>,<column>` fragments when opening file links
+function withSelection(uri: vscode.Uri, ranges: AnchorRange[]): vscode.Uri {
+    if (ranges.length === 0) return uri;
+    const first = ranges[0];
+    const last = ranges[ranges.length - 1];
+    return uri.with({ fragment: `L${first.startLine},${first.startColumn}-L${last.endLine},${last.endColumn}` });
+}
@@ -1,6 +1,10 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { CodeSnippet } from '../types/types';
+import { isSnippetInFile } from '../services/workspacePaths';
+import { formatTags, parseTags } from '../services/snippetTags';
+import { renderMarkdownGroup } from '../exporters/markdownExporter';
+import { loadTemplateExporters, reportTemplateErrors } from '../exporters/templateExporter';
 
 export class SnippetDescriptionLensProvider implements vscode.CodeLensProvider {
     private _onDidChangeCodeLenses: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
@@ -8,16 +12,21 @@ export class SnippetDescriptionLensProvider implements vscode.CodeLensProvider {
 
     private snippets: CodeSnippet[] = [];
     private onSnippetsUpdatedCallback?: (snippets: CodeSnippet[]) => void;
-    private showEditWebviewCallback?: (snippet: CodeSnippet, onSave: (description: string, explanation?: string) => void) => void;
+    private showEditWebviewCallback?: (snippet: CodeSnippet, onSave: (description: string, explanation?: string, tags?: string[]) => void) => void;
+    private showDriftCallback?: (snippet: CodeSnippet) => void;
 
     public setOnSnippetsUpdatedCallback(callback: (snippets: CodeSnippet[]) => void) {
         this.onSnippetsUpdatedCallback = callback;
     }
 
-    public setShowEditWebviewCallback(callback: (snippet: CodeSnippet, onSave: (description: string, explanation?: string) => void) => void) {
+    public setShowEditWebviewCallback(callback: (snippet: CodeSnippet, onSave: (description: string, explanation?: string, tags?: string[]) => void) => void) {
         this.showEditWebviewCallback = callback;
     }
 
+    public setShowDriftCallback(callback: (snippet: CodeSnippet) => void) {
+        this.showDriftCallback = callback;
+    }
+
     public provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
         const codeLenses: vscode.CodeLens[] = [];
         const filePath = document.uri.fsPath;
@@ -25,12 +34,25 @@ export class SnippetDescriptionLensProvider implements vscode.CodeLensProvider {
         // Get snippets for current file with their global indexes
         const fileSnippets = this.getSnippetsForFile(filePath);
         
-        fileSnippets.forEach((snippet, localIndex) => {
+        const orphanedSnippets = fileSnippets.filter(snippet => snippet.orphaned);
+        if (orphanedSnippets.length > 0) {
+            codeLenses.push(new vscode.CodeLens(
+                new vscode.Range(0, 0, 0, 0),
+                {
+                    title: `⚠ ${orphanedSnippets.length} orphaned snippet(s)`,
+                    command: 'codeSnippetCollector.showOrphanedSnippets',
+                    tooltip: 'The code of these snippets could not be found in this file'
+                }
+            ));
+        }
+
+        fileSnippets.filter(snippet => !snippet.orphaned).forEach((snippet, localIndex) => {
             const globalIndex = this.snippets.indexOf(snippet) + 1; // 1-based index
             const line = snippet.range.start.line;
             
-            // Add index number to description display
-            const descriptionText = `📝 [${globalIndex}] ${snippet.description}`;
+            // Add index number (and tags) to description display
+            const tagText = snippet.tags?.length ? `  ${formatTags(snippet.tags)}` : '';
+            const descriptionText = `📝 [${globalIndex}] ${snippet.description}${tagText}`;
             
             codeLenses.push(new vscode.CodeLens(
                 new vscode.Range(line, 0, line, 0),
@@ -41,6 +63,18 @@ export class SnippetDescriptionLensProvider implements vscode.CodeLensProvider {
                 }
             ));
 
+            if (snippet.drifted) {
+                codeLenses.push(new vscode.CodeLens(
+                    new vscode.Range(line, 0, line, 0),
+                    {
+                        title: '⚠ changed',
+                        command: 'dokumenter.showSnippetDrift',
+                        arguments: [line, filePath],
+                        tooltip: 'The source has changed since this snippet was captured'
+                    }
+                ));
+            }
+
             // Edit button
             codeLenses.push(new vscode.CodeLens(
                 new vscode.Range(line, 0, line, 0),
@@ -51,6 +85,16 @@ export class SnippetDescriptionLensProvider implements vscode.CodeLensProvider {
                 }
             ));
 
+            // Tags button
+            codeLenses.push(new vscode.CodeLens(
+                new vscode.Range(line, 0, line, 0),
+                {
+                    title: '🏷️ Tags',
+                    command: 'dokumenter.editTags',
+                    arguments: [line, filePath]
+                }
+            ));
+
             // Copy button - make sure this is properly positioned
             codeLenses.push(new vscode.CodeLens(
                 new vscode.Range(line, 0, line, 0),
@@ -77,10 +121,11 @@ export class SnippetDescriptionLensProvider implements vscode.CodeLensProvider {
     }
 
     private getSnippetsForFile(filePath: string): CodeSnippet[] {
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        const relativePath = workspaceFolder ? path.relative(workspaceFolder.uri.fsPath, filePath) : filePath;
-        
-        return this.snippets.filter(snippet => snippet.relativePath === relativePath);
+        return this.snippets.filter(snippet => isSnippetInFile(snippet, filePath));
+    }
+
+    private findSnippetAtLine(snippetLine: number, filePath: string): CodeSnippet | undefined {
+        return this.snippets.find(s => !s.orphaned && s.range.start.line === snippetLine && isSnippetInFile(s, filePath));
     }
 
     private getLanguageFromExtension(filePath: string): string {
@@ -128,17 +173,15 @@ export class SnippetDescriptionLensProvider implements vscode.CodeLensProvider {
     }
 
     public async handleEditDescription(snippetLine: number, filePath: string) {
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        const relativePath = workspaceFolder ? path.relative(workspaceFolder.uri.fsPath, filePath) : filePath;
-        
-        const snippet = this.snippets.find(s => s.relativePath === relativePath && s.range.start.line === snippetLine);
+        const snippet = this.findSnippetAtLine(snippetLine, filePath);
         if (!snippet) return;
 
-        // If snippet has both description and explanation, show webview panel
-        if (snippet.explanation && snippet.explanation.trim() && this.showEditWebviewCallback) {
-            this.showEditWebviewCallback(snippet, (newDescription: string, newExplanation?: string) => {
+        // If snippet has an explanation or tags besides its description, show webview panel
+        if (((snippet.explanation && snippet.explanation.trim()) || snippet.tags?.length) && this.showEditWebviewCallback) {
+            this.showEditWebviewCallback(snippet, (newDescription: string, newExplanation?: string, newTags?: string[]) => {
                 snippet.description = newDescription;
                 snippet.explanation = newExplanation;
+                snippet.tags = newTags;
                 this._onDidChangeCodeLenses.fire();
                 this.notifySnippetsUpdated();
             });
@@ -160,17 +203,15 @@ export class SnippetDescriptionLensProvider implements vscode.CodeLensProvider {
     }
 
     public async handleEditExplanation(snippetLine: number, filePath: string) {
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        const relativePath = workspaceFolder ? path.relative(workspaceFolder.uri.fsPath, filePath) : filePath;
-        
-        const snippet = this.snippets.find(s => s.relativePath === relativePath && s.range.start.line === snippetLine);
+        const snippet = this.findSnippetAtLine(snippetLine, filePath);
         if (!snippet) return;
 
         // Show webview panel for editing explanation with description
         if (this.showEditWebviewCallback) {
-            this.showEditWebviewCallback(snippet, (newDescription: string, newExplanation?: string) => {
+            this.showEditWebviewCallback(snippet, (newDescription: string, newExplanation?: string, newTags?: string[]) => {
                 snippet.description = newDescription;
                 snippet.explanation = newExplanation;
+                snippet.tags = newTags;
                 this._onDidChangeCodeLenses.fire();
                 this.notifySnippetsUpdated();
             });
@@ -191,11 +232,25 @@ export class SnippetDescriptionLensProvider implements vscode.CodeLensProvider {
         }
     }
 
+    public async handleEditTags(snippetLine: number, filePath: string) {
+        const snippet = this.findSnippetAtLine(snippetLine, filePath);
+        if (!snippet) return;
+
+        const newTags = await vscode.window.showInputBox({
+            prompt: 'Edit tags (comma separated)',
+            value: (snippet.tags || []).join(', '),
+            placeHolder: 'e.g., config, db, security-concern'
+        });
+
+        if (newTags !== undefined) {
+            snippet.tags = parseTags(newTags);
+            this._onDidChangeCodeLenses.fire();
+            this.notifySnippetsUpdated();
+        }
+    }
+
     public async handleDeleteDescription(snippetLine: number, filePath: string) {
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        const relativePath = workspaceFolder ? path.relative(workspaceFolder.uri.fsPath, filePath) : filePath;
-        
-        const snippet = this.snippets.find(s => s.relativePath === relativePath && s.range.start.line === snippetLine);
+        const snippet = this.findSnippetAtLine(snippetLine, filePath);
         if (!snippet) return;
 
         const confirm = await vscode.window.showWarningMessage(
@@ -206,7 +261,7 @@ export class SnippetDescriptionLensProvider implements vscode.CodeLensProvider {
 
         if (confirm === 'Delete') {
             // Remove snippet from local array
-            this.snippets = this.snippets.filter(s => !(s.relativePath === relativePath && s.range.start.line === snippetLine));
+            this.snippets = this.snippets.filter(s => s !== snippet);
             this._onDidChangeCodeLenses.fire();
             
             // Notify snippet manager to remove highlights and update internal state
@@ -217,10 +272,7 @@ export class SnippetDescriptionLensProvider implements vscode.CodeLensProvider {
     }
 
     public async handleDeleteExplanation(snippetLine: number, filePath: string) {
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        const relativePath = workspaceFolder ? path.relative(workspaceFolder.uri.fsPath, filePath) : filePath;
-        
-        const snippet = this.snippets.find(s => s.relativePath === relativePath && s.range.start.line === snippetLine);
+        const snippet = this.findSnippetAtLine(snippetLine, filePath);
         if (!snippet) return;
 
         const confirm = await vscode.window.showWarningMessage(
@@ -236,15 +288,20 @@ export class SnippetDescriptionLensProvider implements vscode.CodeLensProvider {
         }
     }
 
+    public handleShowDrift(snippetLine: number, filePath: string) {
+        const snippet = this.findSnippetAtLine(snippetLine, filePath);
+        if (snippet?.drifted && this.showDriftCallback) {
+            this.showDriftCallback(snippet);
+        }
+    }
+
     public async handleCopySnippet(snippetLine: number, filePath: string) {
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        const relativePath = workspaceFolder ? path.relative(workspaceFolder.uri.fsPath, filePath) : filePath;
-        
-        const snippet = this.snippets.find(s => s.relativePath === relativePath && s.range.start.line === snippetLine);
+        const snippet = this.findSnippetAtLine(snippetLine, filePath);
         if (!snippet) return;
 
         // Find all snippets with the same description and file
         const relatedSnippets = this.snippets.filter(s => 
+            s.workspaceFolder === snippet.workspaceFolder &&
             s.relativePath === snippet.relativePath && 
             s.description === snippet.description
         );
@@ -252,43 +309,30 @@ export class SnippetDescriptionLensProvider implements vscode.CodeLensProvider {
         // Get language based on file extension instead of using snippet.language
         const language = this.getLanguageFromExtension(snippet.relativePath);
 
-        // Generate markdown content
-        let markdownContent = '';
-        
-        if (relatedSnippets.length > 1) {
-            // Multiple snippets with same description - group them
-            markdownContent += `## ${snippet.description} Total - ${relatedSnippets.length}\n\n`;
-            markdownContent += `**File:** \`${snippet.relativePath}\`\n\n`;
-            
-            if (snippet.explanation) {
-                markdownContent += `**Explanation:**\n\n> ${snippet.explanation.replace(/\n/g, '\n> ')}\n\n`;
+        let content = renderMarkdownGroup(relatedSnippets, language);
+        let formatName = 'markdown';
+
+        // Offer the workspace's export templates as alternative layouts
+        const templates = await loadTemplateExporters();
+        void reportTemplateErrors(templates.errors);
+        if (templates.exporters.length > 0) {
+            const picked = await vscode.window.showQuickPick([
+                { label: 'Markdown', description: 'default', template: undefined },
+                ...templates.exporters.map(template => ({ label: template.name, description: `.${template.fileExtension} template`, template }))
+            ], { placeHolder: 'Select the format to copy the snippet in' });
+            if (!picked) return;
+
+            if (picked.template) {
+                content = picked.template.render(relatedSnippets);
+                formatName = `"${picked.template.name}" template`;
             }
-            
-            markdownContent += `**Code:**\n`;
-            markdownContent += '```' + `${language}\n`;
-            
-            // Combine code from all related snippets
-            const combinedCode = relatedSnippets.map(s => s.code).join('\n');
-            markdownContent += `${combinedCode}\n`;
-            markdownContent += '```\n';
-        } else {
-            // Single snippet - use original format
-            markdownContent += `## ${snippet.description}\n\n`;
-            markdownContent += `**File:** \`${snippet.relativePath}\`\n\n`;
-            
-            if (snippet.explanation) {
-                markdownContent += `**Explanation:**\n\n> ${snippet.explanation.replace(/\n/g, '\n> ')}\n\n`;
-            }
-            
-            markdownContent += `**Code:**\n`;
-            markdownContent += '```' + `${language}\n${snippet.code}\n` + '```\n';
         }
 
         try {
-            await vscode.env.clipboard.writeText(markdownContent);
+            await vscode.env.clipboard.writeText(content);
             const message = relatedSnippets.length > 1 
-                ? `${relatedSnippets.length} grouped snippets copied to clipboard in markdown format!`
-                : 'Snippet copied to clipboard in markdown format!';
+                ? `${relatedSnippets.length} grouped snippets copied to clipboard in ${formatName} format!`
+                : `Snippet copied to clipboard in ${formatName} format!`;
             vscode.window.showInformationMessage(message);
         } catch (error) {
             vscode.window.showErrorMessage('Failed to copy snippet to clipboard');
@@ -0,0 +1,22 @@
+import * as vscode from 'vscode';
+
+export class SnippetDiffContentProvider implements vscode.TextDocumentContentProvider {
+    public static readonly scheme = 'dokumenter-diff';
+
+    private _onDidChange: vscode.EventEmitter<vscode.Uri> = new vscode.EventEmitter<vscode.Uri>();
+    public readonly onDidChange: vscode.Event<vscode.Uri> = this._onDidChange.event;
+
+    private contents: Map<string, string> = new Map();
+
+    // The file name is kept in the path so the diff editor picks the right language
+    public createUri(side: 'captured' | 'current', fileName: string, content: string): vscode.Uri {
+        const uri = vscode.Uri.from({ scheme: SnippetDiffContentProvider.scheme, path: `/${side}/${fileName}` });
+        this.contents.set(uri.toString(), content);
+        this._onDidChange.fire(uri);
+        return uri;
+    }
+
+    public provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.contents.get(uri.toString()) || '';
+    }
+}
@@ -0,0 +1,132 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { CodeSnippet, SnippetTopic } from '../types/types';
+import { resolveSnippetUri, resolveWorkspaceFolder } from '../services/workspacePaths';
+import { formatTags } from '../services/snippetTags';
+import { formatLineRange } from '../exporters/snippetGrouping';
+
+export type SnippetTreeNode =
+    | { kind: 'folder'; name: string; snippets: CodeSnippet[] }
+    | { kind: 'file'; relativePath: string; snippets: CodeSnippet[] }
+    | { kind: 'snippet'; snippet: CodeSnippet }
+    | { kind: 'topic'; topic: SnippetTopic; snippets: CodeSnippet[] }
+    | { kind: 'step'; topic: SnippetTopic; snippet: CodeSnippet; index: number };
+
+const OUTSIDE_WORKSPACE = 'Outside workspace';
+
+/** Sidebar view of the active collection: its topics, then workspace folder → file → snippet */
+export class SnippetTreeProvider implements vscode.TreeDataProvider<SnippetTreeNode> {
+    private _onDidChangeTreeData: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+    public readonly onDidChangeTreeData: vscode.Event<void> = this._onDidChangeTreeData.event;
+
+    private snippets: CodeSnippet[] = [];
+    private topics: SnippetTopic[] = [];
+
+    public updateSnippets(snippets: CodeSnippet[], topics: SnippetTopic[] = []) {
+        this.snippets = snippets;
+        this.topics = topics;
+        this._onDidChangeTreeData.fire();
+    }
+
+    public getChildren(node?: SnippetTreeNode): SnippetTreeNode[] {
+        if (!node) {
+            const topics: SnippetTreeNode[] = this.topics.map(topic => ({
+                kind: 'topic',
+                topic,
+                snippets: topic.snippetIds
+                    .map(id => this.snippets.find(snippet => snippet.id === id))
+                    .filter((snippet): snippet is CodeSnippet => !!snippet)
+            }));
+            const folders: SnippetTreeNode[] = groupBy(this.snippets, getFolderName)
+                .map(([name, snippets]) => ({ kind: 'folder', name, snippets }));
+            return [...topics, ...folders];
+        }
+        if (node.kind === 'topic') {
+            return node.snippets.map((snippet, index) => ({ kind: 'step', topic: node.topic, snippet, index }));
+        }
+        if (node.kind === 'folder') {
+            return groupBy(node.snippets, snippet => snippet.relativePath)
+                .map(([relativePath, snippets]) => ({ kind: 'file', relativePath, snippets }));
+        }
+        if (node.kind === 'file') {
+            return [...node.snippets]
+                .sort((a, b) => a.range.start.line - b.range.start.line)
+                .map(snippet => ({ kind: 'snippet', snippet }));
+        }
+        return [];
+    }
+
+    public getTreeItem(node: SnippetTreeNode): vscode.TreeItem {
+        if (node.kind === 'topic') {
+            const item = new vscode.TreeItem(node.topic.name, vscode.TreeItemCollapsibleState.Collapsed);
+            item.iconPath = new vscode.ThemeIcon('list-ordered');
+            item.description = `${node.snippets.length} step(s)`;
+            item.tooltip = node.topic.intro || node.topic.name;
+            item.contextValue = 'snippetTopic';
+            return item;
+        }
+
+        if (node.kind === 'folder') {
+            const item = new vscode.TreeItem(node.name, vscode.TreeItemCollapsibleState.Expanded);
+            item.iconPath = new vscode.ThemeIcon('root-folder');
+            item.description = `${node.snippets.length}`;
+            item.contextValue = 'snippetFolder';
+            return item;
+        }
+
+        if (node.kind === 'file') {
+            const item = new vscode.TreeItem(path.basename(node.relativePath), vscode.TreeItemCollapsibleState.Expanded);
+            // The resource uri gives the file its theme icon
+            item.resourceUri = resolveSnippetUri(node.snippets[0]);
+            item.description = path.dirname(node.relativePath) === '.' ? '' : path.dirname(node.relativePath);
+            item.tooltip = node.relativePath;
+            item.contextValue = 'snippetFile';
+            return item;
+        }
+
+        const { snippet } = node;
+        const label = node.kind === 'step' ? `${node.index + 1}. ${snippet.description}` : snippet.description;
+        const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.None);
+        const tagText = snippet.tags?.length ? `  ${formatTags(snippet.tags)}` : '';
+        const location = node.kind === 'step' ? `${path.basename(snippet.relativePath)}:${formatLineRange(snippet)}` : `lines ${formatLineRange(snippet)}`;
+        item.description = snippet.orphaned ? `orphaned${tagText}` : `${location}${tagText}`;
+        item.tooltip = new vscode.MarkdownString(`**${snippet.description}**${snippet.explanation ? `\n\n${snippet.explanation}` : ''}`);
+        item.iconPath = new vscode.ThemeIcon(snippet.orphaned ? 'warning' : snippet.drifted ? 'diff-modified' : 'note');
+        item.contextValue = node.kind === 'step' ? 'snippetStep' : 'snippet';
+        item.command = {
+            title: 'Reveal Snippet',
+            command: 'codeSnippetCollector.revealSnippet',
+            arguments: [node]
+        };
+        return item;
+    }
+}
+
+/** Snippets under the given nodes, each once */
+export function getNodeSnippets(nodes: SnippetTreeNode[]): CodeSnippet[] {
+    const selected = new Set<CodeSnippet>();
+    nodes.forEach(node => {
+        if (node.kind === 'snippet' || node.kind === 'step') {
+            selected.add(node.snippet);
+        } else {
+            node.snippets.forEach(snippet => selected.add(snippet));
+        }
+    });
+    return [...selected];
+}
+
+// Snippets captured before multi-root support have no folder name and belong to the first folder
+function getFolderName(snippet: CodeSnippet): string {
+    if (path.isAbsolute(snippet.relativePath)) return OUTSIDE_WORKSPACE;
+    return snippet.workspaceFolder || resolveWorkspaceFolder(snippet)?.name || OUTSIDE_WORKSPACE;
+}
+
+function groupBy(snippets: CodeSnippet[], key: (snippet: CodeSnippet) => string): [string, CodeSnippet[]][] {
+    const groups = new Map<string, CodeSnippet[]>();
+    snippets.forEach(snippet => {
+        const value = key(snippet);
+        if (!groups.has(value)) groups.set(value, []);
+        groups.get(value)!.push(snippet);
+    });
+    return [...groups.entries()].sort(([a], [b]) => a.localeCompare(b));
+}
@@ -0,0 +1,67 @@
+import * as vscode from 'vscode';
+import { CodeSnippet } from '../types/types';
+import { CodeTour, CodeTourStep } from '../exporters/codeTourExporter';
+import { getSnippetLocation } from './workspacePaths';
+
+export interface CodeTourImportResult {
+    title: string;
+    snippets: CodeSnippet[];
+    /** Steps without a file (content-only or directory steps) or whose file could not be opened */
+    skippedSteps: number;
+}
+
+/** Reads a .tour file and turns every file step into a snippet covering its selection or line */
+export async function importCodeTour(tourUri: vscode.Uri): Promise<CodeTourImportResult> {
+    const tour = JSON.parse(new TextDecoder().decode(await vscode.workspace.fs.readFile(tourUri))) as CodeTour;
+    if (!tour || !Array.isArray(tour.steps)) {
+        throw new Error('The file is not a CodeTour: it has no "steps" list.');
+    }
+
+    // Step paths are relative to the workspace folder that holds the tour
+    const baseUri = vscode.workspace.getWorkspaceFolder(tourUri)?.uri || vscode.workspace.workspaceFolders?.[0]?.uri;
+    const snippets: CodeSnippet[] = [];
+    let skippedSteps = 0;
+
+    for (const [index, step] of tour.steps.entries()) {
+        const fileUri = step.file && baseUri ? vscode.Uri.joinPath(baseUri, step.file) : step.uri ? vscode.Uri.parse(step.uri) : undefined;
+        if (!fileUri || (step.selection === undefined && step.line === undefined)) {
+            skippedSteps++;
+            continue;
+        }
+
+        let document: vscode.TextDocument;
+        try {
+            document = await vscode.workspace.openTextDocument(fileUri);
+        } catch {
+            skippedSteps++;
+            continue;
+        }
+
+        const range = document.validateRange(getStepRange(step, document));
+        const description = step.title || firstLine(step.description) || `Step ${index + 1}`;
+        snippets.push({
+            ...getSnippetLocation(document.uri),
+            code: document.getText(range),
+            language: document.languageId,
+            description,
+            explanation: step.description && step.description !== description ? step.description : undefined,
+            range
+        });
+    }
+
+    return { title: tour.title || 'CodeTour', snippets, skippedSteps };
+}
+
+function getStepRange(step: CodeTourStep, document: vscode.TextDocument): vscode.Range {
+    if (step.selection) {
+        const { start, end } = step.selection;
+        return new vscode.Range(start.line - 1, start.character - 1, end.line - 1, end.character - 1);
+    }
+    // A step without a selection highlights its whole line
+    const line = Math.min(Math.max(step.line! - 1, 0), document.lineCount - 1);
+    return document.lineAt(line).range;
+}
+
+function firstLine(text: string | undefined): string {
+    return (text || '').split(/\r?\n/)[0].replace(/^#+\s*/, '').trim();
+}
@@ -0,0 +1,241 @@
+import * as crypto from 'crypto';
+import { findFuzzyLineMatch } from './lineMatching';
+
+// Kept free of the vscode module so scripts can refresh documentation headless (see src/cli/refreshDocs.ts)
+
+/** 1-based start and end of one snippet; the end column points just past the last character */
+export interface AnchorRange {
+    startLine: number;
+    startColumn: number;
+    endLine: number;
+    endColumn: number;
+}
+
+/** Invisible HTML comment written before every exported code block */
+export interface CodeAnchor {
+    path: string;
+    ranges: AnchorRange[];
+    /** Hash of each range's code at export time */
+    hashes: string[];
+}
+
+export interface RefreshProblem {
+    /** 0-based line of the anchor in the refreshed document */
+    line: number;
+    path: string;
+    message: string;
+}
+
+export interface RefreshResult {
+    content: string;
+    updated: number;
+    unchanged: number;
+    problems: RefreshProblem[];
+}
+
+const ANCHOR_PATTERN = /^<!-- dokumenter:code path="([^"]*)" range="([^"]*)" hash="([^"]*)" -->$/;
+
+export function hashCode(code: string): string {
+    return crypto.createHash('sha1').update(code.replace(/\r\n/g, '\n')).digest('hex').substring(0, 12);
+}
+
+/** Cheap test for anchors, so markdown that was not exported here is left alone */
+export function hasCodeAnchors(content: string): boolean {
+    return content.includes('<!-- dokumenter:code ');
+}
+
+export function formatCodeAnchor(anchor: CodeAnchor): string {
+    const ranges = anchor.ranges.map(r => `${r.startLine}:${r.startColumn}-${r.endLine}:${r.endColumn}`).join(',');
+    return `<!-- dokumenter:code path="${anchor.path.replace(/"/g, '%22')}" range="${ranges}" hash="${anchor.hashes.join(',')}" -->`;
+}
+
+export function parseCodeAnchor(line: string): CodeAnchor | undefined {
+    const match = line.trim().match(ANCHOR_PATTERN);
+    if (!match) return undefined;
+
+    const ranges: AnchorRange[] = [];
+    for (const part of match[2].split(',')) {
+        const range = part.match(/^(\d+):(\d+)-(\d+):(\d+)$/);
+        if (!range) return undefined;
+        const [startLine, startColumn, endLine, endColumn] = range.slice(1).map(n => parseInt(n, 10));
+        ranges.push({ startLine, startColumn, endLine, endColumn });
+    }
+    return { path: match[1].replace(/%22/g, '"'), ranges, hashes: match[3].split(',') };
+}
+
+/** Line numbers shown in exports, e.g. "10-14, 32-40"; a range ending at column 1 does not include that line */
+export function formatAnchorLines(ranges: AnchorRange[]): string {
+    return ranges.map(r => {
+        const endLine = r.endColumn === 1 && r.endLine > r.startLine ? r.endLine - 1 : r.endLine;
+        return r.startLine === endLine ? `${r.startLine}` : `${r.startLine}-${endLine}`;
+    }).join(', ');
+}
+
+/**
+ * Rewrites every anchored code block of a markdown document with the current
+ * source. Unchanged code only gets its line numbers updated when it moved;
+ * changed code is replaced by the closest matching lines. Blocks whose code
+ * cannot be found are left as they are and reported as problems.
+ *
+ * `readSource` returns the text of a file by the path written in the anchor.
+ */
+export function refreshDocumentation(content: string, readSource: (path: string) => string | undefined): RefreshResult {
+    const eol = content.includes('\r\n') ? '\r\n' : '\n';
+    const lines = content.split(/\r?\n/);
+    const result: RefreshResult = { content, updated: 0, unchanged: 0, problems: [] };
+
+    // Bottom-up, so rewriting a block does not move the ones still to do
+    findAnchoredBlocks(lines).reverse().forEach(block => {
+        const { anchor, line } = block;
+        if (block.codeEnd === undefined) {
+            result.problems.push({ line, path: anchor.path, message: 'The code block after this anchor is not closed.' });
+            return;
+        }
+
+        const source = readSource(anchor.path);
+        if (source === undefined) {
+            result.problems.push({ line, path: anchor.path, message: `${anchor.path} could not be found.` });
+            return;
+        }
+
+        const blockLines = lines.slice(block.codeStart, block.codeEnd);
+        const refreshed = refreshCodeBlock(anchor, blockLines, source);
+        if (typeof refreshed === 'string') {
+            result.problems.push({ line, path: anchor.path, message: refreshed });
+            return;
+        }
+        if (refreshed.code.join('\n') === blockLines.join('\n') && formatCodeAnchor(refreshed.anchor) === lines[line].trim()) {
+            result.unchanged++;
+            return;
+        }
+
+        lines.splice(block.codeStart, blockLines.length, ...refreshed.code);
+        lines[line] = formatCodeAnchor(refreshed.anchor);
+        updateLinesField(lines, line, refreshed.anchor.ranges);
+        result.updated++;
+    });
+
+    result.problems.sort((a, b) => a.line - b.line);
+    result.content = lines.join(eol);
+    return result;
+}
+
+export interface AnchoredBlock {
+    anchor: CodeAnchor;
+    /** Line of the anchor comment; the opening fence follows it */
+    line: number;
+    language: string;
+    /** First line of code */
+    codeStart: number;
+    /** Line of the closing fence, undefined when the block is not closed */
+    codeEnd?: number;
+}
+
+/** Code blocks of a markdown document that are preceded by an anchor, in document order */
+export function findAnchoredBlocks(lines: string[]): AnchoredBlock[] {
+    const blocks: AnchoredBlock[] = [];
+    for (let i = 0; i < lines.length; i++) {
+        const anchor = parseCodeAnchor(lines[i]);
+        const fence = anchor && lines[i + 1]?.match(/^\s*(`{3,}|~{3,})\s*(\S*)/);
+        if (!anchor || !fence) continue;
+
+        const closing = lines.findIndex((line, index) => index > i + 1 && line.trim() === fence[1]);
+        blocks.push({ anchor, line: i, language: fence[2], codeStart: i + 2, codeEnd: closing === -1 ? undefined : closing });
+        if (closing !== -1) i = closing;
+    }
+    return blocks;
+}
+
+/** The block's code as it is in `source` now with its updated anchor, or why it could not be found */
+export function refreshCodeBlock(anchor: CodeAnchor, blockLines: string[], source: string): { anchor: CodeAnchor; code: string[] } | string {
+    source = source.replace(/\r\n/g, '\n');
+    // Grouped blocks hold the code of each range one after another. A range ending at
+    // column 1 takes up one more block line than it has code lines: the empty one after its last line break
+    const lineCounts = anchor.ranges.map(r => r.endLine - r.startLine + 1);
+    if (lineCounts.reduce((sum, count) => sum + count, 0) !== blockLines.length || anchor.hashes.length !== anchor.ranges.length) {
+        return 'The code block was edited by hand and no longer matches its anchor.';
+    }
+
+    const sourceLines = source.split('\n');
+    const ranges: AnchorRange[] = [];
+    const codes: string[] = [];
+    let offset = 0;
+
+    for (const [index, range] of anchor.ranges.entries()) {
+        const oldCode = blockLines.slice(offset, offset + lineCounts[index]).join('\n');
+        offset += lineCounts[index];
+
+        const current = getRangeText(sourceLines, range);
+        if (current !== undefined && hashCode(current) === anchor.hashes[index]) {
+            ranges.push(range);
+            codes.push(current);
+            continue;
+        }
+
+        const moved = findExactRange(source, oldCode, range.startLine);
+        if (moved) {
+            ranges.push(moved);
+            codes.push(oldCode);
+            continue;
+        }
+
+        const endsAtLineStart = range.endColumn === 1 && range.endLine > range.startLine;
+        const codeLineCount = endsAtLineStart ? lineCounts[index] - 1 : lineCounts[index];
+        const startLine = findFuzzyLineMatch(sourceLines, oldCode.split('\n').slice(0, codeLineCount).join('\n'), range.startLine - 1);
+        if (startLine === undefined) {
+            return `The code of lines ${formatAnchorLines([range])} could not be found in ${anchor.path} any more.`;
+        }
+        const endLine = startLine + codeLineCount - 1;
+        const code = sourceLines.slice(startLine, endLine + 1).join('\n');
+        // Whole-line ranges stay whole-line ranges, unless the match ends on the last line of the file
+        if (endsAtLineStart && endLine + 1 < sourceLines.length) {
+            ranges.push({ startLine: startLine + 1, startColumn: 1, endLine: endLine + 2, endColumn: 1 });
+            codes.push(`${code}\n`);
+        } else {
+            ranges.push({ startLine: startLine + 1, startColumn: 1, endLine: endLine + 1, endColumn: sourceLines[endLine].length + 1 });
+            codes.push(code);
+        }
+    }
+
+    return { anchor: { path: anchor.path, ranges, hashes: codes.map(hashCode) }, code: codes.join('\n').split('\n') };
+}
+
+function getRangeText(sourceLines: string[], range: AnchorRange): string | undefined {
+    if (range.endLine > sourceLines.length) return undefined;
+    const selected = sourceLines.slice(range.startLine - 1, range.endLine);
+    selected[selected.length - 1] = selected[selected.length - 1].substring(0, range.endColumn - 1);
+    selected[0] = selected[0].substring(range.startColumn - 1);
+    return selected.join('\n');
+}
+
+/** Occurrence of `code` closest to the line it was exported from */
+function findExactRange(source: string, code: string, previousLine: number): AnchorRange | undefined {
+    if (!code.trim()) return undefined;
+
+    let best: AnchorRange | undefined;
+    for (let offset = source.indexOf(code); offset !== -1; offset = source.indexOf(code, offset + 1)) {
+        const start = toPosition(source, offset);
+        const end = toPosition(source, offset + code.length);
+        const range = { startLine: start.line, startColumn: start.column, endLine: end.line, endColumn: end.column };
+        if (!best || Math.abs(range.startLine - previousLine) < Math.abs(best.startLine - previousLine)) {
+            best = range;
+        }
+    }
+    return best;
+}
+
+function toPosition(text: string, offset: number): { line: number; column: number } {
+    const before = text.substring(0, offset);
+    const lineStart = before.lastIndexOf('\n') + 1;
+    return { line: before.split('\n').length, column: offset - lineStart + 1 };
+}
+
+// Keeps the "**Lines:**" field of the exported section in step with the anchor
+function updateLinesField(lines: string[], anchorLine: number, ranges: AnchorRange[]): void {
+    for (let i = anchorLine - 1; i >= 0 && !/^#{1,6}\s/.test(lines[i]); i--) {
+        if (lines[i].startsWith('**Lines:**')) {
+            lines[i] = `**Lines:** ${formatAnchorLines(ranges)}`;
+            return;
+        }
+    }
+}
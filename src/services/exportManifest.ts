@@ -0,0 +1,78 @@
+import * as vscode from 'vscode';
+import { ExportFile } from '../types/types';
+
+// Written next to the pages of a directory export, listing every file it wrote
+const MANIFEST_FILE = '.dokumenter-export.json';
+
+interface ExportManifest {
+    files: string[];
+}
+
+/**
+ * Paths of the previous export that the new one no longer writes. Entries that
+ * would leave the export folder are ignored, so an edited manifest cannot
+ * delete anything else.
+ */
+export function findStaleFiles(previous: string[], current: string[]): string[] {
+    const written = new Set(current);
+    return previous.filter(file => !written.has(file) && isInsideExport(file));
+}
+
+/**
+ * Writes the files of a directory export and removes the pages an earlier
+ * export into the same folder left behind, along with folders that end up
+ * empty. Files the export never wrote are left alone. Returns the number of
+ * files removed.
+ */
+export async function writeDirectoryExport(folderUri: vscode.Uri, files: ExportFile[]): Promise<number> {
+    const previous = await readManifest(folderUri);
+    const paths = files.map(file => file.path);
+
+    for (const file of files) {
+        await vscode.workspace.fs.writeFile(toUri(folderUri, file.path), new TextEncoder().encode(file.content));
+    }
+
+    let removed = 0;
+    for (const stale of findStaleFiles(previous, paths)) {
+        try {
+            await vscode.workspace.fs.delete(toUri(folderUri, stale));
+        } catch {
+            continue; // Already deleted by hand
+        }
+        removed++;
+        await removeEmptyFolders(folderUri, stale);
+    }
+
+    const manifest: ExportManifest = { files: paths };
+    await vscode.workspace.fs.writeFile(toUri(folderUri, MANIFEST_FILE), new TextEncoder().encode(JSON.stringify(manifest, null, 2) + '\n'));
+    return removed;
+}
+
+async function readManifest(folderUri: vscode.Uri): Promise<string[]> {
+    try {
+        const manifest = JSON.parse(new TextDecoder().decode(await vscode.workspace.fs.readFile(toUri(folderUri, MANIFEST_FILE)))) as ExportManifest;
+        return Array.isArray(manifest?.files) ? manifest.files.filter(file => typeof file === 'string') : [];
+    } catch {
+        return [];
+    }
+}
+
+// Walks up from the removed file, stopping at the export folder or the first folder that still has entries
+async function removeEmptyFolders(folderUri: vscode.Uri, removedFile: string): Promise<void> {
+    const segments = removedFile.split('/').slice(0, -1);
+    while (segments.length > 0) {
+        const uri = toUri(folderUri, segments.join('/'));
+        if ((await vscode.workspace.fs.readDirectory(uri)).length > 0) return;
+        await vscode.workspace.fs.delete(uri);
+        segments.pop();
+    }
+}
+
+function isInsideExport(file: string): boolean {
+    return file.length > 0 && !file.startsWith('/') && !/^[a-zA-Z]:/.test(file)
+        && file.split(/[/\\]/).every(segment => segment !== '..' && segment !== '');
+}
+
+function toUri(folderUri: vscode.Uri, file: string): vscode.Uri {
+    return vscode.Uri.joinPath(folderUri, ...file.split('/'));
+}
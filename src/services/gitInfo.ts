@@ -0,0 +1,216 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+
+/*
+ * Reads just enough of a local `.git` directory to build permalinks, without
+ * shelling out to git: the HEAD commit, the `origin` remote and the index.
+ */
+
+export interface GitRepository {
+    /** Working tree root */
+    root: string;
+    /** Directory with HEAD and index (differs from commonDir for worktrees) */
+    gitDir: string;
+    /** Directory with refs, packed-refs and config */
+    commonDir: string;
+    headSha?: string;
+    remoteUrl?: string;
+}
+
+/** Repository of each directory looked at, so files of one export share a single lookup */
+export type GitRepositoryCache = Map<string, Promise<GitRepository | undefined>>;
+
+// Parsed index of each repository, read on first use
+const indexEntries = new WeakMap<GitRepository, Promise<Map<string, string> | undefined>>();
+
+export function findGitRepository(filePath: string, cache: GitRepositoryCache = new Map()): Promise<GitRepository | undefined> {
+    return findInDirectory(path.dirname(filePath), cache);
+}
+
+function findInDirectory(dir: string, cache: GitRepositoryCache): Promise<GitRepository | undefined> {
+    let lookup = cache.get(dir);
+    if (!lookup) {
+        lookup = lookupRepository(dir, cache);
+        cache.set(dir, lookup);
+    }
+    return lookup;
+}
+
+async function lookupRepository(dir: string, cache: GitRepositoryCache): Promise<GitRepository | undefined> {
+    const dotGit = path.join(dir, '.git');
+    const stat = await fs.promises.stat(dotGit).catch(() => undefined);
+    if (stat) {
+        const gitDir = stat.isDirectory() ? dotGit : await readGitDirFile(dotGit, dir);
+        if (gitDir) return loadRepository(dir, gitDir);
+    }
+
+    const parent = path.dirname(dir);
+    return parent === dir ? undefined : findInDirectory(parent, cache);
+}
+
+// Worktrees and submodules have a `.git` file pointing at the real git dir
+async function readGitDirFile(dotGitFile: string, root: string): Promise<string | undefined> {
+    const content = await fs.promises.readFile(dotGitFile, 'utf8').catch(() => '');
+    const match = content.match(/^gitdir:\s*(.+)$/m);
+    return match ? path.resolve(root, match[1].trim()) : undefined;
+}
+
+async function loadRepository(root: string, gitDir: string): Promise<GitRepository> {
+    const commonDirFile = await fs.promises.readFile(path.join(gitDir, 'commondir'), 'utf8').catch(() => undefined);
+    const commonDir = commonDirFile ? path.resolve(gitDir, commonDirFile.trim()) : gitDir;
+
+    return {
+        root,
+        gitDir,
+        commonDir,
+        headSha: await readHeadSha(gitDir, commonDir),
+        remoteUrl: await readRemoteUrl(commonDir, 'origin')
+    };
+}
+
+async function readHeadSha(gitDir: string, commonDir: string): Promise<string | undefined> {
+    const head = (await fs.promises.readFile(path.join(gitDir, 'HEAD'), 'utf8').catch(() => '')).trim();
+    const ref = head.match(/^ref:\s*(.+)$/);
+    if (!ref) {
+        return /^[0-9a-f]{40}$/i.test(head) ? head : undefined;
+    }
+
+    const looseRef = await fs.promises.readFile(path.join(commonDir, ref[1]), 'utf8').catch(() => undefined);
+    if (looseRef) return looseRef.trim();
+
+    const packedRefs = await fs.promises.readFile(path.join(commonDir, 'packed-refs'), 'utf8').catch(() => '');
+    const packed = packedRefs.split(/\r?\n/).find(line => line.endsWith(` ${ref[1]}`));
+    return packed?.split(' ')[0];
+}
+
+async function readRemoteUrl(commonDir: string, remote: string): Promise<string | undefined> {
+    const config = await fs.promises.readFile(path.join(commonDir, 'config'), 'utf8').catch(() => '');
+    let inRemote = false;
+    for (const line of config.split(/\r?\n/)) {
+        const section = line.match(/^\s*\[(.+)\]\s*$/);
+        if (section) {
+            inRemote = section[1].replace(/\s+/g, ' ') === `remote "${remote}"`;
+            continue;
+        }
+        const url = inRemote && line.match(/^\s*url\s*=\s*(.+?)\s*$/);
+        if (url) return url[1];
+    }
+    return undefined;
+}
+
+/**
+ * Compares a file with its entry in the git index. Changes that are staged
+ * but not committed are not detected, since that would need the HEAD tree.
+ * Returns undefined when the index cannot be read. The index is read once
+ * per repository object, so look the repository up again to see later changes.
+ */
+export async function hasUncommittedChanges(repository: GitRepository, filePath: string): Promise<boolean | undefined> {
+    let entriesLookup = indexEntries.get(repository);
+    if (!entriesLookup) {
+        entriesLookup = readIndexEntries(repository);
+        indexEntries.set(repository, entriesLookup);
+    }
+    const entries = await entriesLookup;
+    if (!entries) return undefined;
+
+    const repoPath = path.relative(repository.root, filePath).split(path.sep).join('/');
+    const indexedSha = entries.get(repoPath);
+    if (!indexedSha) return true; // untracked, the link would point at nothing
+
+    const content = await fs.promises.readFile(filePath).catch(() => undefined);
+    if (!content) return true;
+
+    // With core.autocrlf the index holds LF while the working copy has CRLF
+    const lfContent = Buffer.from(content.toString('latin1').replace(/\r\n/g, '\n'), 'latin1');
+    return hashBlob(content) !== indexedSha && hashBlob(lfContent) !== indexedSha;
+}
+
+async function readIndexEntries(repository: GitRepository): Promise<Map<string, string> | undefined> {
+    const index = await fs.promises.readFile(path.join(repository.gitDir, 'index')).catch(() => undefined);
+    return index ? parseIndexEntries(index) : undefined;
+}
+
+function hashBlob(content: Buffer): string {
+    return crypto.createHash('sha1')
+        .update(`blob ${content.length}\0`)
+        .update(content)
+        .digest('hex');
+}
+
+/** Path -> blob sha of a version 2 or 3 index; version 4 (prefix compressed paths) is not supported */
+function parseIndexEntries(index: Buffer): Map<string, string> | undefined {
+    if (index.length < 12 || index.toString('ascii', 0, 4) !== 'DIRC') return undefined;
+    const version = index.readUInt32BE(4);
+    if (version !== 2 && version !== 3) return undefined;
+
+    const entries = new Map<string, string>();
+    const count = index.readUInt32BE(8);
+    let offset = 12;
+    for (let i = 0; i < count; i++) {
+        const entryStart = offset;
+        const sha = index.toString('hex', offset + 40, offset + 60);
+        const flags = index.readUInt16BE(offset + 60);
+        offset += 62;
+        if (version === 3 && (flags & 0x4000)) offset += 2;
+
+        const nameEnd = index.indexOf(0, offset);
+        if (nameEnd === -1) return undefined;
+        entries.set(index.toString('utf8', offset, nameEnd), sha);
+
+        // Entries are NUL padded to a multiple of eight bytes
+        const entryLength = nameEnd - entryStart + 1;
+        offset = entryStart + Math.ceil(entryLength / 8) * 8;
+    }
+    return entries;
+}
+
+/**
+ * Turns a remote URL into a link to a line range at a commit. Supports GitHub,
+ * GitLab, Bitbucket and Azure DevOps; other hosts get GitHub-style links.
+ */
+export function buildPermalink(remoteUrl: string, sha: string, repoPath: string, startLine: number, endLine: number): string | undefined {
+    const base = toWebUrl(remoteUrl);
+    if (!base) return undefined;
+
+    const encodedPath = repoPath.split('/').map(encodeURIComponent).join('/');
+    const host = new URL(base).hostname;
+
+    if (host.includes('gitlab')) {
+        return `${base}/-/blob/${sha}/${encodedPath}#L${startLine}-${endLine}`;
+    }
+    if (host.includes('bitbucket')) {
+        return `${base}/src/${sha}/${encodedPath}#lines-${startLine}:${endLine}`;
+    }
+    if (host === 'dev.azure.com' || host.endsWith('.visualstudio.com')) {
+        return `${base}?path=/${encodedPath}&version=GC${sha}&line=${startLine}&lineEnd=${endLine + 1}` +
+            `&lineStartColumn=1&lineEndColumn=1&lineStyle=plain&_a=contents`;
+    }
+    return `${base}/blob/${sha}/${encodedPath}#L${startLine}-L${endLine}`;
+}
+
+function toWebUrl(remoteUrl: string): string | undefined {
+    let url = remoteUrl.trim().replace(/\.git$/, '').replace(/\/$/, '');
+
+    // Azure DevOps SSH: git@ssh.dev.azure.com:v3/org/project/repo
+    const azureSsh = url.match(/^(?:ssh:\/\/)?[^@]+@ssh\.dev\.azure\.com(?::22)?[:/]v3\/([^/]+)\/([^/]+)\/(.+)$/);
+    if (azureSsh) {
+        return `https://dev.azure.com/${azureSsh[1]}/${azureSsh[2]}/_git/${azureSsh[3]}`;
+    }
+
+    // scp-like syntax: git@host:owner/repo
+    const scp = url.match(/^[^@/]+@([^:/]+):(?!\/)(.+)$/);
+    if (scp) {
+        url = `https://${scp[1]}/${scp[2]}`;
+    }
+    url = url.replace(/^(ssh|git|http):\/\//, 'https://');
+
+    try {
+        const parsed = new URL(url);
+        if (parsed.protocol !== 'https:') return undefined;
+        // Drop credentials and SSH ports
+        return `https://${parsed.hostname}${parsed.pathname}`.replace(/\/$/, '');
+    } catch {
+        return undefined;
+    }
+}
@@ -0,0 +1,60 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { CodeSnippet, ExportTopic } from '../types/types';
+import { JSON_SCHEMA_VERSION, JsonPosition, JsonSnippetDocument } from '../exporters/jsonExporter';
+
+/**
+ * Restores the collection written by the JSON exporter. Ranges, capture times
+ * and drift flags are kept as exported; the exported ids only link topics to
+ * their steps, so the snippets come back without ids and get fresh ones when
+ * imported. Grouping follows from the snippets' paths and descriptions like it
+ * does everywhere else.
+ */
+export function parseSnippetJson(content: string): { name: string; snippets: CodeSnippet[]; topics: ExportTopic[] } {
+    const document = JSON.parse(content) as JsonSnippetDocument;
+    if (!document || typeof document.schemaVersion !== 'number' || !Array.isArray(document.snippets)) {
+        throw new Error('The file is not a snippet JSON export: "schemaVersion" or "snippets" is missing.');
+    }
+    if (document.schemaVersion > JSON_SCHEMA_VERSION) {
+        throw new Error(`Schema version ${document.schemaVersion} is newer than the supported version ${JSON_SCHEMA_VERSION}. Update the extension to import it.`);
+    }
+
+    const snippetsById = new Map<string, CodeSnippet>();
+    const snippets = document.snippets.map((snippet, index): CodeSnippet => {
+        if (typeof snippet.relativePath !== 'string' || !isPosition(snippet.start) || !isPosition(snippet.end)) {
+            throw new Error(`Snippet ${index + 1} has no valid "relativePath", "start" or "end".`);
+        }
+        const restored: CodeSnippet = {
+            workspaceFolder: snippet.workspaceFolder,
+            relativePath: snippet.relativePath.split('/').join(path.sep),
+            code: snippet.code ?? '',
+            language: snippet.language || 'plaintext',
+            description: snippet.description ?? '',
+            explanation: snippet.explanation || undefined,
+            tags: Array.isArray(snippet.tags) && snippet.tags.length > 0 ? snippet.tags.map(String) : undefined,
+            symbol: snippet.symbol || undefined,
+            range: new vscode.Range(snippet.start.line, snippet.start.column, snippet.end.line, snippet.end.column),
+            capturedAt: snippet.capturedAt,
+            orphaned: snippet.orphaned || undefined,
+            drifted: snippet.drifted || undefined
+        };
+        if (snippet.id) snippetsById.set(snippet.id, restored);
+        return restored;
+    });
+
+    const topics = (Array.isArray(document.topics) ? document.topics : [])
+        .map((topic): ExportTopic => ({
+            name: topic.name || 'Topic',
+            intro: topic.intro || undefined,
+            snippets: (Array.isArray(topic.snippetIds) ? topic.snippetIds : [])
+                .map(id => snippetsById.get(id))
+                .filter((snippet): snippet is CodeSnippet => !!snippet)
+        }))
+        .filter(topic => topic.snippets.length > 0);
+
+    return { name: document.name || 'Imported', snippets, topics };
+}
+
+function isPosition(position: JsonPosition | undefined): position is JsonPosition {
+    return !!position && Number.isInteger(position.line) && Number.isInteger(position.column);
+}
@@ -0,0 +1,72 @@
+// Kept free of the vscode module so the headless documentation refresh can use it
+
+// Share of a snippet's significant lines that must reappear for a fuzzy match
+const FUZZY_MATCH_THRESHOLD = 0.6;
+
+function isSignificantLine(line: string): boolean {
+    // Braces and blank lines match almost anywhere
+    return line.length > 2;
+}
+
+/**
+ * Slides a window the height of the snippet over the lines and scores how
+ * many of the snippet's significant lines (ignoring indentation) it contains.
+ * Returns the first line of the best window, preferring ones near `previousLine`.
+ */
+export function findFuzzyLineMatch(lines: string[], code: string, previousLine: number): number | undefined {
+    const snippetLines = code.split(/\r?\n/).map(line => line.trim());
+    const windowSize = snippetLines.length;
+    if (windowSize > lines.length) return undefined;
+
+    const wanted = new Map<string, number>();
+    snippetLines.filter(isSignificantLine).forEach(line => wanted.set(line, (wanted.get(line) || 0) + 1));
+    const significantCount = Array.from(wanted.values()).reduce((sum, count) => sum + count, 0);
+    if (significantCount === 0) return undefined;
+
+    const documentLines = lines.map(line => line.trim());
+
+    const inWindow = new Map<string, number>();
+    let matched = 0;
+    const addLine = (line: string) => {
+        const limit = wanted.get(line);
+        if (limit === undefined) return;
+        const count = (inWindow.get(line) || 0) + 1;
+        inWindow.set(line, count);
+        if (count <= limit) matched++;
+    };
+    const removeLine = (line: string) => {
+        const limit = wanted.get(line);
+        if (limit === undefined) return;
+        const count = inWindow.get(line)!;
+        if (count <= limit) matched--;
+        inWindow.set(line, count - 1);
+    };
+
+    // Lines equal at the same offset; separates windows that contain the same lines but are shifted
+    const alignment = (start: number) => snippetLines.filter((line, k) => documentLines[start + k] === line).length;
+
+    let bestStart = -1;
+    let bestScore = 0;
+    let bestAlignment = 0;
+    for (let i = 0; i < documentLines.length; i++) {
+        addLine(documentLines[i]);
+        if (i >= windowSize) removeLine(documentLines[i - windowSize]);
+        if (i < windowSize - 1) continue;
+
+        const start = i - windowSize + 1;
+        const score = matched / significantCount;
+        if (score < bestScore || score === 0) continue;
+
+        const startAlignment = alignment(start);
+        const better = score > bestScore
+            || startAlignment > bestAlignment
+            || (startAlignment === bestAlignment && Math.abs(start - previousLine) < Math.abs(bestStart - previousLine));
+        if (bestStart === -1 || better) {
+            bestScore = score;
+            bestStart = start;
+            bestAlignment = startAlignment;
+        }
+    }
+
+    return bestStart === -1 || bestScore < FUZZY_MATCH_THRESHOLD ? undefined : bestStart;
+}
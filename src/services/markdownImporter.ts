@@ -0,0 +1,196 @@
+import * as vscode from 'vscode';
+import { CodeSnippet } from '../types/types';
+import { findSnippetAnchor } from './snippetAnchor';
+import { parseDisplayPath, resolveSnippetUri } from './workspacePaths';
+import { parseTags } from './snippetTags';
+
+export interface ParsedSnippetGroup {
+    description: string;
+    /** Number of snippets combined into the group ("Total - N"), 1 otherwise */
+    count: number;
+    path: string;
+    /** First line of the group when the export recorded line numbers (1-based) */
+    startLine?: number;
+    explanation?: string;
+    tags?: string[];
+    language: string;
+    code: string;
+}
+
+export interface ImportResult {
+    snippets: CodeSnippet[];
+    orphanedCount: number;
+}
+
+/**
+ * Parses documents in the layout written by SnippetManager.generateMarkdownContent.
+ * Sections without a file reference or code block are skipped.
+ */
+export function parseSnippetMarkdown(content: string): ParsedSnippetGroup[] {
+    const lines = content.split(/\r?\n/);
+    const groups: ParsedSnippetGroup[] = [];
+    let current: Partial<ParsedSnippetGroup> | undefined;
+
+    const finishGroup = () => {
+        if (current && current.path && current.code !== undefined) {
+            groups.push(current as ParsedSnippetGroup);
+        }
+        current = undefined;
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        const heading = line.match(/^## (.*)$/);
+        if (heading) {
+            finishGroup();
+            const total = heading[1].match(/^(.*) Total - (\d+)$/);
+            current = total
+                ? { description: total[1], count: parseInt(total[2], 10) }
+                : { description: heading[1], count: 1 };
+            continue;
+        }
+
+        // Steps of a topic section: "### 2. Description — `path`"
+        const step = line.match(/^### \d+\. (.*?)(?: — `[^`]+`)?$/);
+        if (step) {
+            finishGroup();
+            current = { description: step[1], count: 1 };
+            continue;
+        }
+        if (!current) continue;
+
+        const file = line.match(/^\*\*File:\*\* `([^`]+)`/);
+        if (file) {
+            current.path = file[1];
+            continue;
+        }
+
+        const lineRange = line.match(/^\*\*Lines:\*\* (\d+)/);
+        if (lineRange) {
+            current.startLine = parseInt(lineRange[1], 10);
+            continue;
+        }
+
+        const tags = line.match(/^\*\*Tags:\*\* (.*)$/);
+        if (tags) {
+            current.tags = parseTags(tags[1].replace(/`/g, ''));
+            continue;
+        }
+
+        if (line.startsWith('**Explanation:**')) {
+            const quoted: string[] = [];
+            let j = i + 1;
+            while (j < lines.length && lines[j].trim() === '') j++;
+            while (j < lines.length && lines[j].startsWith('>')) {
+                quoted.push(lines[j].replace(/^> ?/, ''));
+                j++;
+            }
+            current.explanation = quoted.join('\n') || undefined;
+            i = j - 1;
+            continue;
+        }
+
+        const fence = line.match(/^```(.*)$/);
+        if (fence && current.code === undefined) {
+            const codeLines: string[] = [];
+            let j = i + 1;
+            while (j < lines.length && lines[j] !== '```') {
+                codeLines.push(lines[j]);
+                j++;
+            }
+            current.language = fence[1].trim() || 'plaintext';
+            current.code = codeLines.join('\n');
+            i = j;
+        }
+    }
+    finishGroup();
+
+    return groups;
+}
+
+/**
+ * Rebuilds snippets from parsed groups by finding each code block in its source file again.
+ * Grouped blocks are split back into the contiguous runs of lines that exist in the file.
+ */
+export async function importSnippetGroups(groups: ParsedSnippetGroup[]): Promise<ImportResult> {
+    const snippets: CodeSnippet[] = [];
+    let orphanedCount = 0;
+
+    for (const group of groups) {
+        const location = parseDisplayPath(group.path);
+        const base = {
+            ...location,
+            language: group.language,
+            description: group.description,
+            explanation: group.explanation,
+            tags: group.tags
+        };
+
+        let document: vscode.TextDocument | undefined;
+        const uri = resolveSnippetUri(location);
+        try {
+            document = uri ? await vscode.workspace.openTextDocument(uri) : undefined;
+        } catch {
+            document = undefined;
+        }
+
+        if (!document) {
+            snippets.push({ ...base, code: group.code, range: new vscode.Range(0, 0, 0, 0), orphaned: true });
+            orphanedCount++;
+            continue;
+        }
+
+        const segments = group.count > 1 ? splitIntoSourceRuns(document, group.code) : [group.code];
+        const previousLine = group.startLine ? group.startLine - 1 : 0;
+        for (const code of segments) {
+            const anchor = findSnippetAnchor(document, code, previousLine);
+            if (anchor) {
+                snippets.push({ ...base, code, range: anchor.range });
+            } else {
+                snippets.push({ ...base, code, range: new vscode.Range(0, 0, 0, 0), orphaned: true });
+                orphanedCount++;
+            }
+        }
+    }
+
+    return { snippets, orphanedCount };
+}
+
+/**
+ * Grouped code is the snippets joined with newlines, so the boundaries are lost.
+ * Greedily take the longest run of lines that appears verbatim in the file;
+ * lines found nowhere are kept together and left to fuzzy matching.
+ */
+function splitIntoSourceRuns(document: vscode.TextDocument, code: string): string[] {
+    const text = document.getText();
+    const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+    const lines = code.split(/\r?\n/);
+    const runs: string[] = [];
+    let unmatched: string[] = [];
+
+    let i = 0;
+    while (i < lines.length) {
+        if (text.indexOf(lines[i]) === -1) {
+            unmatched.push(lines[i]);
+            i++;
+            continue;
+        }
+        if (unmatched.length > 0) {
+            runs.push(unmatched.join('\n'));
+            unmatched = [];
+        }
+
+        let end = i + 1;
+        while (end < lines.length && text.indexOf(lines.slice(i, end + 1).join(eol)) !== -1) {
+            end++;
+        }
+        runs.push(lines.slice(i, end).join(eol));
+        i = end;
+    }
+    if (unmatched.length > 0) {
+        runs.push(unmatched.join('\n'));
+    }
+
+    return runs.filter(run => run.trim() !== '');
+}
@@ -0,0 +1,123 @@
+import { CodeSnippet, ExportContext } from '../types/types';
+import { renderMarkdownGroup } from '../exporters/markdownExporter';
+import { groupSnippets } from '../exporters/snippetGrouping';
+import { parseSnippetMarkdown } from './markdownImporter';
+import { getDisplayPath } from './workspacePaths';
+
+export interface MergeResult {
+    content: string;
+    /** Groups written into the document */
+    added: number;
+    /** Groups left out because the document already has their path and description */
+    skipped: number;
+}
+
+interface Heading {
+    line: number;
+    level: number;
+    text: string;
+    /** Line of the next heading of the same or a higher level */
+    end: number;
+    /** `**File:**` path when the section is an exported snippet group */
+    path?: string;
+}
+
+/**
+ * Adds snippet groups to an existing markdown document without touching what
+ * is already there. A group goes after the last section for the same file, or
+ * at the end of a heading that names the file, and otherwise at the end.
+ */
+export function mergeIntoMarkdown(content: string, snippets: CodeSnippet[], context?: ExportContext): MergeResult {
+    const eol = content.includes('\r\n') ? '\r\n' : '\n';
+    const lines = content.split(/\r?\n/);
+    const headings = findHeadings(lines);
+    const existing = new Set(parseSnippetMarkdown(content).map(group => `${group.path}::${group.description}`));
+
+    // Insertions per line, applied bottom-up so earlier line numbers stay valid
+    const insertions = new Map<number, string[]>();
+    let added = 0;
+    let skipped = 0;
+
+    groupSnippets(snippets).forEach(group => {
+        const displayPath = getDisplayPath(group[0]);
+        const key = `${displayPath}::${group[0].description}`;
+        if (existing.has(key)) {
+            skipped++;
+            return;
+        }
+        existing.add(key);
+
+        const at = findInsertionLine(headings, displayPath, lines.length);
+        if (!insertions.has(at)) {
+            insertions.set(at, []);
+        }
+        insertions.get(at)!.push(renderMarkdownGroup(group, undefined, context) + '\n---\n');
+        added++;
+    });
+
+    [...insertions.keys()].sort((a, b) => b - a).forEach(position => {
+        const block = insertions.get(position)!.join('\n').trimEnd().split('\n');
+        // New groups follow the section's text, ahead of the blank lines that close it
+        let at = position;
+        while (at > 0 && lines[at - 1].trim() === '') at--;
+        if (at > 0 && lines[at - 1].trim() !== '') block.unshift('');
+        if (at < lines.length && lines[at].trim() !== '') block.push('');
+        lines.splice(at, 0, ...block);
+    });
+
+    return { content: lines.join(eol), added, skipped };
+}
+
+function findInsertionLine(headings: Heading[], displayPath: string, lineCount: number): number {
+    const groupSections = headings.filter(heading => heading.path === displayPath);
+    if (groupSections.length > 0) {
+        return groupSections[groupSections.length - 1].end;
+    }
+
+    const fileHeading = headings.find(heading => !heading.path && heading.text.replace(/`/g, '').includes(displayPath));
+    if (fileHeading) {
+        return fileHeading.end;
+    }
+
+    return lineCount;
+}
+
+function findHeadings(lines: string[]): Heading[] {
+    const headings: Heading[] = [];
+    let fence: string | undefined;
+
+    lines.forEach((line, index) => {
+        const fenceMatch = line.match(/^\s*(```|~~~)/);
+        if (fenceMatch) {
+            if (!fence) fence = fenceMatch[1];
+            else if (fenceMatch[1] === fence) fence = undefined;
+            return;
+        }
+        if (fence) return;
+
+        const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+        if (heading) {
+            headings.push({ line: index, level: heading[1].length, text: heading[2], end: lines.length });
+            return;
+        }
+
+        const current = headings[headings.length - 1];
+        const file = line.match(/^\*\*File:\*\* `([^`]+)`/);
+        if (current && current.level === 2 && !current.path && file) {
+            current.path = file[1];
+        }
+    });
+
+    headings.forEach((heading, i) => {
+        const next = headings.slice(i + 1).find(other => other.level <= heading.level);
+        heading.end = next ? next.line : lines.length;
+    });
+    // A snippet group ends at the next heading of any level
+    headings.forEach((heading, i) => {
+        if (heading.path && i + 1 < headings.length) {
+            heading.end = headings[i + 1].line;
+        }
+    });
+
+    return headings;
+}
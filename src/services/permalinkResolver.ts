@@ -0,0 +1,54 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { CodeSnippet, ExportContext } from '../types/types';
+import { buildPermalink, findGitRepository, GitRepositoryCache, hasUncommittedChanges } from './gitInfo';
+import { getDisplayPath, resolveSnippetUri } from './workspacePaths';
+
+export interface PermalinkExportContext {
+    context: ExportContext;
+    /** Display paths of files whose permalinks may show different code */
+    uncommittedFiles: string[];
+}
+
+interface FileLinkInfo {
+    remoteUrl: string;
+    sha: string;
+    repoPath: string;
+}
+
+/** Looks up the git repository of every snippet file once, before exporting; each repository and its index is read once */
+export async function createPermalinkContext(snippets: CodeSnippet[]): Promise<PermalinkExportContext> {
+    const links = new Map<string, FileLinkInfo>();
+    const uncommittedFiles: string[] = [];
+    const repositories: GitRepositoryCache = new Map();
+
+    for (const snippet of snippets) {
+        const uri = resolveSnippetUri(snippet);
+        if (!uri || uri.scheme !== 'file' || links.has(uri.fsPath)) continue;
+
+        const repository = await findGitRepository(uri.fsPath, repositories);
+        if (!repository?.headSha || !repository.remoteUrl) continue;
+
+        links.set(uri.fsPath, {
+            remoteUrl: repository.remoteUrl,
+            sha: repository.headSha,
+            repoPath: path.relative(repository.root, uri.fsPath).split(path.sep).join('/')
+        });
+
+        const unsaved = vscode.workspace.textDocuments.some(d => d.uri.fsPath === uri.fsPath && d.isDirty);
+        if (unsaved || await hasUncommittedChanges(repository, uri.fsPath)) {
+            uncommittedFiles.push(getDisplayPath(snippet));
+        }
+    }
+
+    return {
+        context: {
+            getPermalink: (snippet, startLine, endLine) => {
+                const uri = resolveSnippetUri(snippet);
+                const info = uri && links.get(uri.fsPath);
+                return info ? buildPermalink(info.remoteUrl, info.sha, info.repoPath, startLine, endLine) : undefined;
+            }
+        },
+        uncommittedFiles
+    };
+}
@@ -0,0 +1,58 @@
+import * as vscode from 'vscode';
+
+export interface AdjustedRange {
+    range: vscode.Range;
+    contentChanged: boolean;
+}
+
+/**
+ * Moves a snippet range through a single document edit.
+ * Returns undefined when the edit removed the whole range.
+ */
+export function adjustRangeForChange(range: vscode.Range, change: vscode.TextDocumentContentChangeEvent): AdjustedRange | undefined {
+    const changeStart = change.range.start;
+    const changeEnd = change.range.end;
+
+    // Edit after the snippet (or appended right at its end)
+    if (changeStart.isAfterOrEqual(range.end)) {
+        return { range, contentChanged: false };
+    }
+
+    // Edit above the snippet (or inserted right at its start)
+    if (changeEnd.isBeforeOrEqual(range.start)) {
+        return {
+            range: new vscode.Range(shiftPosition(range.start, change), shiftPosition(range.end, change)),
+            contentChanged: false
+        };
+    }
+
+    // Edit swallowed the whole snippet
+    if (changeStart.isBeforeOrEqual(range.start) && changeEnd.isAfterOrEqual(range.end)) {
+        return undefined;
+    }
+
+    // Edit overlaps the snippet: grow or shrink it around the new text
+    const start = changeStart.isBefore(range.start) ? changeStart : range.start;
+    const end = changeEnd.isAfter(range.end) ? getInsertedTextEnd(change) : shiftPosition(range.end, change);
+    return { range: new vscode.Range(start, end), contentChanged: true };
+}
+
+function getInsertedTextEnd(change: vscode.TextDocumentContentChangeEvent): vscode.Position {
+    const lines = change.text.split(/\r\n|\r|\n/);
+    const start = change.range.start;
+    if (lines.length === 1) {
+        return new vscode.Position(start.line, start.character + lines[0].length);
+    }
+    return new vscode.Position(start.line + lines.length - 1, lines[lines.length - 1].length);
+}
+
+// Only valid for positions at or after the end of the replaced range
+function shiftPosition(position: vscode.Position, change: vscode.TextDocumentContentChangeEvent): vscode.Position {
+    const changeEnd = change.range.end;
+    const insertedEnd = getInsertedTextEnd(change);
+
+    if (position.line === changeEnd.line) {
+        return new vscode.Position(insertedEnd.line, insertedEnd.character + position.character - changeEnd.character);
+    }
+    return new vscode.Position(position.line + insertedEnd.line - changeEnd.line, position.character);
+}
@@ -0,0 +1,65 @@
+import * as vscode from 'vscode';
+import { findFuzzyLineMatch } from './lineMatching';
+
+export interface AnchorMatch {
+    range: vscode.Range;
+    exact: boolean;
+}
+
+/**
+ * Finds where a snippet's code lives in a document now, preferring the
+ * occurrence closest to the line it was last seen on.
+ */
+export function findSnippetAnchor(document: vscode.TextDocument, code: string, previousLine: number): AnchorMatch | undefined {
+    const exactRange = findExactMatch(document, code, previousLine);
+    if (exactRange) {
+        return { range: exactRange, exact: true };
+    }
+
+    const fuzzyRange = findFuzzyMatch(document, code, previousLine);
+    return fuzzyRange ? { range: fuzzyRange, exact: false } : undefined;
+}
+
+function findExactMatch(document: vscode.TextDocument, code: string, previousLine: number): vscode.Range | undefined {
+    if (!code) return undefined;
+
+    const text = document.getText();
+    const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+    // The file may have been checked out with different line endings
+    const candidates = Array.from(new Set([code, code.replace(/\r?\n/g, eol)]));
+
+    let best: vscode.Range | undefined;
+    for (const candidate of candidates) {
+        let offset = text.indexOf(candidate);
+        while (offset !== -1) {
+            const range = new vscode.Range(document.positionAt(offset), document.positionAt(offset + candidate.length));
+            if (!best || Math.abs(range.start.line - previousLine) < Math.abs(best.start.line - previousLine)) {
+                best = range;
+            }
+            offset = text.indexOf(candidate, offset + 1);
+        }
+        if (best) break;
+    }
+    return best;
+}
+
+function findFuzzyMatch(document: vscode.TextDocument, code: string, previousLine: number): vscode.Range | undefined {
+    const lines: string[] = [];
+    for (let i = 0; i < document.lineCount; i++) {
+        lines.push(document.lineAt(i).text);
+    }
+
+    // Whole-line selections end with a line break; their range ends at the start of the following line
+    const codeLines = code.split(/\r?\n/);
+    const endsAtLineStart = codeLines.length > 1 && codeLines[codeLines.length - 1] === '';
+    if (endsAtLineStart) codeLines.pop();
+
+    const startLine = findFuzzyLineMatch(lines, codeLines.join('\n'), previousLine);
+    if (startLine === undefined) return undefined;
+
+    const endLine = startLine + codeLines.length - 1;
+    if (endsAtLineStart && endLine + 1 < document.lineCount) {
+        return new vscode.Range(startLine, 0, endLine + 1, 0);
+    }
+    return new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length);
+}
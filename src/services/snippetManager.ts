@@ -1,62 +1,193 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { CodeSnippet } from '../types/types';
+import { CodeSnippet, ExportTopic, SnippetCollection, SnippetTopic } from '../types/types';
+import { SnippetStorage } from './snippetStorage';
+import { adjustRangeForChange } from './rangeTracker';
+import { findSnippetAnchor } from './snippetAnchor';
+import { MarkdownExporter } from '../exporters/markdownExporter';
+import { resolveTopics } from '../exporters/snippetGrouping';
+import { getSnippetLocation, isSnippetInFile, isSnippetUnderPath } from './workspacePaths';
+import { formatTags } from './snippetTags';
+
+const DEFAULT_COLLECTION_NAME = 'Default';
+// Typing in a file with snippets changes them on every keystroke; storage is written once the typing pauses
+const SAVE_DELAY_MS = 1000;
+
+function createId(): string {
+    return Date.now().toString(36) + Math.random().toString(36).substring(2, 8);
+}
+
+/** Gives snippets created before ids existed an id of their own */
+function withIds(snippets: CodeSnippet[]): CodeSnippet[] {
+    snippets.forEach(snippet => snippet.id = snippet.id || createId());
+    return snippets;
+}
 
 export class SnippetManager {
-    private snippets: CodeSnippet[] = [];
+    private collections: SnippetCollection[] = [{ id: createId(), name: DEFAULT_COLLECTION_NAME, snippets: [] }];
+    private activeCollectionId: string = this.collections[0].id;
     private decorationType: vscode.TextEditorDecorationType;
+    private driftedDecorationType: vscode.TextEditorDecorationType;
     private decorations: Map<string, vscode.DecorationOptions[]> = new Map();
+    private driftedDecorations: Map<string, vscode.DecorationOptions[]> = new Map();
+    // Snippets whose tag has a configured color use that tag's decoration instead of the default one
+    private tagDecorationTypes: Map<string, vscode.TextEditorDecorationType> = new Map();
+    private tagDecorations: Map<string, Map<string, vscode.DecorationOptions[]>> = new Map();
     private onSnippetsChangedCallback?: (snippets: CodeSnippet[]) => void;
+    private saveTimeout: NodeJS.Timeout | undefined;
 
-    constructor() {
+    constructor(private readonly storage?: SnippetStorage) {
         this.decorationType = vscode.window.createTextEditorDecorationType({
             backgroundColor: 'rgba(255, 255, 0, 0.3)',
             border: '1px solid #cca700',
         });
+        this.driftedDecorationType = vscode.window.createTextEditorDecorationType({
+            backgroundColor: 'rgba(255, 140, 0, 0.25)',
+            border: '1px dashed #e07000',
+        });
+    }
+
+    // Everything below works on the active collection only
+    private get snippets(): CodeSnippet[] {
+        return this.getActiveCollection().snippets;
+    }
+
+    private set snippets(snippets: CodeSnippet[]) {
+        this.getActiveCollection().snippets = snippets;
     }
 
     public setOnSnippetsChangedCallback(callback: (snippets: CodeSnippet[]) => void) {
         this.onSnippetsChangedCallback = callback;
     }
 
-    public addSnippet(editor: vscode.TextEditor, selection: vscode.Selection, description: string, explanation?: string): void {
+    public loadPersistedSnippets(): void {
+        if (!this.storage) return;
+        const state = this.storage.load();
+        if (state.collections.length > 0) {
+            this.collections = state.collections;
+            this.collections.forEach(c => withIds(c.snippets));
+            this.activeCollectionId = this.collections.some(c => c.id === state.activeCollectionId)
+                ? state.activeCollectionId!
+                : this.collections[0].id;
+        }
+        this.activateCollection();
+    }
+
+    public getCollections(): SnippetCollection[] {
+        return [...this.collections];
+    }
+
+    public getActiveCollection(): SnippetCollection {
+        return this.collections.find(c => c.id === this.activeCollectionId) || this.collections[0];
+    }
+
+    public createCollection(name: string): SnippetCollection {
+        const collection: SnippetCollection = { id: createId(), name, snippets: [] };
+        this.collections.push(collection);
+        this.switchCollection(collection.id);
+        return collection;
+    }
+
+    /** Adds `snippets` as a new collection; they get fresh ids, so importing the same file twice gives independent copies */
+    public importCollection(name: string, snippets: CodeSnippet[], topics: ExportTopic[] = []): SnippetCollection {
+        snippets.forEach(snippet => snippet.id = createId());
+        const collection: SnippetCollection = {
+            id: createId(),
+            name,
+            snippets,
+            topics: topics.length > 0
+                ? topics.map(topic => ({ id: createId(), name: topic.name, intro: topic.intro, snippetIds: topic.snippets.map(snippet => snippet.id!) }))
+                : undefined
+        };
+        this.collections.push(collection);
+        this.switchCollection(collection.id);
+        return collection;
+    }
+
+    public renameCollection(id: string, name: string): void {
+        const collection = this.collections.find(c => c.id === id);
+        if (!collection) return;
+        collection.name = name;
+        this.notifySnippetsChanged();
+    }
+
+    public switchCollection(id: string): void {
+        if (!this.collections.some(c => c.id === id)) return;
+        this.activeCollectionId = id;
+        this.activateCollection();
+    }
+
+    public deleteCollection(id: string): void {
+        this.collections = this.collections.filter(c => c.id !== id);
+        if (this.collections.length === 0) {
+            this.collections.push({ id: createId(), name: DEFAULT_COLLECTION_NAME, snippets: [] });
+        }
+        if (!this.collections.some(c => c.id === this.activeCollectionId)) {
+            this.activeCollectionId = this.collections[0].id;
+        }
+        this.activateCollection();
+    }
+
+    // Shows the active collection: ranges of open files are re-checked since
+    // edits made while another collection was active were not tracked
+    private activateCollection(): void {
+        this.notifySnippetsChanged();
+        vscode.workspace.textDocuments.forEach(document => this.reanchorSnippetsInDocument(document));
+        this.rebuildAllDecorations();
+    }
+
+    public setTagColors(colors: Record<string, string>): void {
+        vscode.window.visibleTextEditors.forEach(editor => {
+            this.tagDecorationTypes.forEach(type => editor.setDecorations(type, []));
+        });
+        this.tagDecorationTypes.forEach(type => type.dispose());
+        this.tagDecorationTypes.clear();
+
+        Object.entries(colors).forEach(([tag, color]) => {
+            this.tagDecorationTypes.set(tag, vscode.window.createTextEditorDecorationType({
+                backgroundColor: color,
+                border: `1px solid ${color}`,
+            }));
+        });
+        this.rebuildAllDecorations();
+    }
+
+    public addSnippet(editor: vscode.TextEditor, selection: vscode.Selection, description: string, explanation?: string, tags?: string[], symbol?: string): void {
         const document = editor.document;
-        const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
-        
         const snippet: CodeSnippet = {
-            relativePath: workspaceFolder ? path.relative(workspaceFolder.uri.fsPath, document.uri.fsPath) : document.uri.fsPath,
+            id: createId(),
+            ...getSnippetLocation(document.uri),
             code: document.getText(selection),
             language: document.languageId,
             description,
             explanation: explanation || undefined,
-            range: selection
+            tags,
+            symbol,
+            range: selection,
+            capturedAt: new Date().toISOString()
         };
 
         this.snippets.push(snippet);
-        this.addHighlight(editor, selection, snippet.description, snippet.explanation);
+        this.refreshDecorationsForFile(document.uri.fsPath);
         this.notifySnippetsChanged();
     }
 
-    public updateSnippet(index: number, description: string, explanation?: string): void {
+    public updateSnippet(index: number, description: string, explanation?: string, tags?: string[]): void {
         if (index >= 0 && index < this.snippets.length) {
             this.snippets[index].description = description;
             this.snippets[index].explanation = explanation;
+            this.snippets[index].tags = tags;
+            // A tag with its own color changes the snippet's highlight
+            this.rebuildAllDecorations();
             this.notifySnippetsChanged();
         }
     }
 
     public findSnippetAtPosition(filePath: string, position: vscode.Position): { snippet: CodeSnippet; index: number } | null {
-        const fileDecorations = this.decorations.get(filePath) || [];
-        const targetDecoration = fileDecorations.find(deco => deco.range.contains(position));
-        
-        if (!targetDecoration) return null;
-
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        const relativePath = workspaceFolder ? path.relative(workspaceFolder.uri.fsPath, filePath) : filePath;
-        
-        const snippetIndex = this.snippets.findIndex(s => 
-            s.relativePath === relativePath && 
-            s.range.isEqual(targetDecoration.range)
+        const snippetIndex = this.snippets.findIndex(s =>
+            isSnippetInFile(s, filePath) &&
+            !s.orphaned &&
+            s.range.contains(position)
         );
 
         return snippetIndex !== -1 ? { snippet: this.snippets[snippetIndex], index: snippetIndex } : null;
@@ -73,169 +204,333 @@ export class SnippetManager {
     public clearAll(): void {
         this.snippets = [];
         this.decorations.clear();
+        this.driftedDecorations.clear();
+        this.tagDecorations.clear();
         vscode.window.visibleTextEditors.forEach(editor => {
             editor.setDecorations(this.decorationType, []);
+            editor.setDecorations(this.driftedDecorationType, []);
+            this.tagDecorationTypes.forEach(type => editor.setDecorations(type, []));
         });
         this.notifySnippetsChanged();
     }
 
     public generateMarkdownContent(): string {
-        let content = `# Code Snippets Collection\n\n*Generated on: ${new Date().toLocaleString()}*\n\n---\n\n`;
-        
-        // Group snippets by file and description
-        const groupedSnippets = new Map<string, CodeSnippet[]>();
-        
-        this.snippets.forEach((snippet) => {
-            const key = `${snippet.relativePath}::${snippet.description}`;
-            if (!groupedSnippets.has(key)) {
-                groupedSnippets.set(key, []);
-            }
-            groupedSnippets.get(key)!.push(snippet);
-        });
-        
-        // Process each group
-        groupedSnippets.forEach((snippetGroup) => {
-            const firstSnippet = snippetGroup[0];
-            const isMultiple = snippetGroup.length > 1;
-            
-            // Title with count for multiple snippets
-            const title = isMultiple 
-                ? `${firstSnippet.description} Total - ${snippetGroup.length}`
-                : firstSnippet.description;
-                
-            content += `## ${title}\n\n`;
-            content += `**File:** \`${firstSnippet.relativePath}\`\n\n`;
-            
-            // Add explanation if exists (only show once for grouped snippets)
-            if (firstSnippet.explanation) {
-                content += `**Explanation:**\n\n> ${firstSnippet.explanation.replace(/\n/g, '\n> ')}\n\n`;
-            }
-            
-            content += `**Code:**\n`;
-            content += '```' + `${firstSnippet.language}\n`;
-            
-            // Combine code from all snippets in the group
-            const combinedCode = snippetGroup.map(snippet => snippet.code).join('\n');
-            content += `${combinedCode}\n`;
-            
-            content += '```\n\n---\n\n';
-        });
-        
-        return content;
+        return new MarkdownExporter().render(this.snippets, { topics: this.getExportTopics(this.snippets) });
+    }
+
+    public getTopics(): SnippetTopic[] {
+        return [...(this.getActiveCollection().topics || [])];
+    }
+
+    /** Topics of the active collection with their steps resolved among `snippets` */
+    public getExportTopics(snippets: CodeSnippet[]): ExportTopic[] {
+        return resolveTopics(this.getTopics(), snippets);
+    }
+
+    public createTopic(name: string, snippets: CodeSnippet[], intro?: string): SnippetTopic {
+        const topic: SnippetTopic = { id: createId(), name, intro, snippetIds: snippets.map(snippet => snippet.id!) };
+        const collection = this.getActiveCollection();
+        collection.topics = [...(collection.topics || []), topic];
+        this.notifySnippetsChanged();
+        return topic;
+    }
+
+    public updateTopic(id: string, changes: Partial<Omit<SnippetTopic, 'id'>>): void {
+        const topic = this.getActiveCollection().topics?.find(t => t.id === id);
+        if (!topic) return;
+        Object.assign(topic, changes);
+        this.notifySnippetsChanged();
+    }
+
+    public deleteTopic(id: string): void {
+        const collection = this.getActiveCollection();
+        collection.topics = collection.topics?.filter(t => t.id !== id);
+        this.notifySnippetsChanged();
     }
 
     public updateDecorationsForEditor(editor: vscode.TextEditor): void {
+        // Snippets restored from storage have no decorations until their file is shown
+        if (!this.decorations.has(editor.document.uri.fsPath)) {
+            this.buildDecorationsForFile(editor.document.uri.fsPath);
+        }
         editor.setDecorations(this.decorationType, this.decorations.get(editor.document.uri.fsPath) || []);
+        editor.setDecorations(this.driftedDecorationType, this.driftedDecorations.get(editor.document.uri.fsPath) || []);
+        const tagDecorations = this.tagDecorations.get(editor.document.uri.fsPath);
+        this.tagDecorationTypes.forEach((type, tag) => editor.setDecorations(type, tagDecorations?.get(tag) || []));
     }
 
-    private addHighlight(editor: vscode.TextEditor, range: vscode.Range, description: string, explanation?: string): void {
-        const filePath = editor.document.uri.fsPath;
-        if (!this.decorations.has(filePath)) this.decorations.set(filePath, []);
-        
-        // Create hover message with description and explanation
-        const hoverText = explanation ? 
-            `**📝 Saved Snippet**\n\n**Description:** ${description}\n\n**Explanation:** ${explanation}` :
-            `**📝 Saved Snippet**\n\n**Description:** ${description}`;
-        
-        this.decorations.get(filePath)!.push({
-            range: range,
-            hoverMessage: new vscode.MarkdownString(hoverText)
-        });
-        
-        this.updateDecorationsForEditor(editor);
-    }
-
-    public handleTextChange(filePath: string): void {
-        const fileDecorations = this.decorations.get(filePath);
-        if (fileDecorations && fileDecorations.length > 0) {
-            this.decorations.delete(filePath);
-            
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            const relativePath = workspaceFolder ? path.relative(workspaceFolder.uri.fsPath, filePath) : filePath;
-            
-            const originalSnippetCount = this.snippets.length;
-            this.snippets = this.snippets.filter(s => s.relativePath !== relativePath);
-            
-            // Always notify when snippets are removed, regardless of count
-            if (this.snippets.length < originalSnippetCount) {
-                vscode.window.showWarningMessage(`Snippets cleared from ${path.basename(filePath)} due to document changes.`);
+    public handleTextChange(event: vscode.TextDocumentChangeEvent): void {
+        if (event.contentChanges.length === 0) return;
+
+        const filePath = event.document.uri.fsPath;
+        const fileSnippets = this.snippets.filter(s => isSnippetInFile(s, filePath) && !s.orphaned);
+        if (fileSnippets.length === 0) return;
+
+        let orphanedCount = 0;
+        for (const snippet of fileSnippets) {
+            let range: vscode.Range | undefined = snippet.range;
+            let contentChanged = false;
+
+            for (const change of event.contentChanges) {
+                const adjusted = adjustRangeForChange(range, change);
+                if (!adjusted) {
+                    range = undefined;
+                    break;
+                }
+                range = adjusted.range;
+                contentChanged = contentChanged || adjusted.contentChanged;
+            }
+
+            if (!range) {
+                // Content replaced wholesale (e.g. reloaded after a checkout) may still contain the code
+                const anchor = findSnippetAnchor(event.document, snippet.code, snippet.range.start.line);
+                if (!anchor) {
+                    snippet.orphaned = true;
+                    orphanedCount++;
+                    continue;
+                }
+                range = anchor.range;
             }
-            
-            // Always notify about the change to update counters
+
+            snippet.range = range;
+            // A drifted snippet keeps its captured code until the drift is resolved
+            if (contentChanged && !snippet.drifted) {
+                snippet.code = event.document.getText(range);
+            }
+        }
+
+        if (orphanedCount > 0) {
+            vscode.window.showWarningMessage(`${orphanedCount} snippet(s) in ${path.basename(filePath)} lost their code and are marked as orphaned. Use "Show Orphaned Snippets" to re-anchor or remove them.`);
+        }
+
+        this.checkDrift(event.document);
+        this.notifySnippetsChanged();
+        this.refreshDecorationsForFile(filePath);
+    }
+
+    /**
+     * Checks every snippet of a freshly opened document against its stored range and
+     * relocates the ones whose code moved. Snippets that cannot be found are orphaned.
+     */
+    public reanchorSnippetsInDocument(document: vscode.TextDocument): void {
+        const filePath = document.uri.fsPath;
+        let changed = false;
+        for (const snippet of this.snippets.filter(s => isSnippetInFile(s, filePath))) {
+            const storedRange = document.validateRange(snippet.range);
+            if (!snippet.orphaned && storedRange.isEqual(snippet.range) && document.getText(storedRange) === snippet.code) {
+                continue;
+            }
+
+            const anchor = findSnippetAnchor(document, snippet.code, snippet.range.start.line);
+            if (anchor) {
+                changed = changed || snippet.orphaned === true || !anchor.range.isEqual(snippet.range);
+                snippet.range = anchor.range;
+                snippet.orphaned = undefined;
+            } else if (!snippet.orphaned) {
+                snippet.orphaned = true;
+                changed = true;
+            }
+        }
+
+        changed = this.checkDrift(document) || changed;
+
+        if (changed) {
             this.notifySnippetsChanged();
+            this.refreshDecorationsForFile(filePath);
+        }
+    }
 
-            const editor = vscode.window.visibleTextEditors.find(e => e.document.uri.fsPath === filePath);
-            if (editor) {
-                this.updateDecorationsForEditor(editor);
+    /**
+     * Compares every anchored snippet of a document with the source currently at its range.
+     * Returns true when the drift state of any snippet changed.
+     */
+    private checkDrift(document: vscode.TextDocument): boolean {
+        let changed = false;
+        for (const snippet of this.snippets.filter(s => isSnippetInFile(s, document.uri.fsPath) && !s.orphaned)) {
+            const currentCode = document.getText(snippet.range);
+            const drifted = currentCode !== snippet.code && currentCode !== snippet.ignoredDriftCode;
+            if (drifted !== (snippet.drifted === true)) {
+                snippet.drifted = drifted || undefined;
+                changed = true;
             }
         }
+        return changed;
     }
 
-    public updateSnippetsFromExternal(updatedSnippets: CodeSnippet[]): void {
-        const oldSnippetsCount = this.snippets.length;
-        this.snippets = [...updatedSnippets];
-        
-        // If snippets were removed, we need to clean up decorations
-        if (this.snippets.length < oldSnippetsCount) {
+    /**
+     * Settles a drifted snippet: either adopt the current source as its code,
+     * or keep the captured code and stop flagging this version of the source.
+     */
+    public resolveDrift(snippet: CodeSnippet, currentCode: string, acceptCurrent: boolean): void {
+        if (acceptCurrent) {
+            snippet.code = currentCode;
+            snippet.ignoredDriftCode = undefined;
+        } else {
+            snippet.ignoredDriftCode = currentCode;
+        }
+        snippet.drifted = undefined;
+
+        this.notifySnippetsChanged();
+        this.rebuildAllDecorations();
+    }
+
+    public handleFileRenames(event: vscode.FileRenameEvent): void {
+        let changed = false;
+        for (const { oldUri, newUri } of event.files) {
+            const oldLocation = getSnippetLocation(oldUri);
+            const newLocation = getSnippetLocation(newUri);
+
+            for (const snippet of this.getSnippetsOfAllCollections()) {
+                // Folder renames move every snippet underneath them
+                if (!isSnippetUnderPath(snippet, oldUri.fsPath)) continue;
+
+                snippet.workspaceFolder = newLocation.workspaceFolder;
+                snippet.relativePath = newLocation.relativePath + snippet.relativePath.substring(oldLocation.relativePath.length);
+                changed = true;
+            }
+        }
+
+        if (changed) {
+            this.notifySnippetsChanged();
             this.rebuildAllDecorations();
         }
-        
+    }
+
+    public handleFileDeletes(event: vscode.FileDeleteEvent): void {
+        let changed = false;
+        for (const snippet of this.getSnippetsOfAllCollections()) {
+            const deleted = event.files.some(uri => isSnippetUnderPath(snippet, uri.fsPath));
+            if (deleted && !snippet.orphaned) {
+                snippet.orphaned = true;
+                changed = true;
+            }
+        }
+
+        if (changed) {
+            this.notifySnippetsChanged();
+        }
+    }
+
+    private getSnippetsOfAllCollections(): CodeSnippet[] {
+        return this.collections.reduce<CodeSnippet[]>((all, c) => all.concat(c.snippets), []);
+    }
+
+    public getOrphanedSnippets(): CodeSnippet[] {
+        return this.snippets.filter(s => s.orphaned);
+    }
+
+    public anchorSnippetToSelection(snippet: CodeSnippet, editor: vscode.TextEditor): void {
+        Object.assign(snippet, getSnippetLocation(editor.document.uri));
+        snippet.range = editor.selection;
+        snippet.code = editor.document.getText(editor.selection);
+        snippet.language = editor.document.languageId;
+        snippet.orphaned = undefined;
+
+        this.notifySnippetsChanged();
+        this.rebuildAllDecorations();
+    }
+
+    public removeSnippet(snippet: CodeSnippet): void {
+        this.snippets = this.snippets.filter(s => s !== snippet);
+        this.notifySnippetsChanged();
+        this.rebuildAllDecorations();
+    }
+
+    private refreshDecorationsForFile(filePath: string): void {
+        this.decorations.delete(filePath);
+        this.driftedDecorations.delete(filePath);
+        this.tagDecorations.delete(filePath);
+        vscode.window.visibleTextEditors
+            .filter(e => e.document.uri.fsPath === filePath)
+            .forEach(editor => this.updateDecorationsForEditor(editor));
+    }
+
+    public updateSnippetsFromExternal(updatedSnippets: CodeSnippet[]): void {
+        this.snippets = [...updatedSnippets];
+
+        // Removed snippets and changed tags both affect the highlights
+        this.rebuildAllDecorations();
+
         // Always notify about changes to update counters
         this.notifySnippetsChanged();
-        
-        // Update decorations for all visible editors
-        vscode.window.visibleTextEditors.forEach(editor => {
-            this.updateDecorationsForEditor(editor);
-        });
     }
 
     private rebuildAllDecorations(): void {
-        // Clear all existing decorations
+        // Decorations are rebuilt lazily from the current snippets for each visible editor
         this.decorations.clear();
+        this.driftedDecorations.clear();
+        this.tagDecorations.clear();
         vscode.window.visibleTextEditors.forEach(editor => {
-            editor.setDecorations(this.decorationType, []);
+            this.updateDecorationsForEditor(editor);
         });
+    }
 
-        // Rebuild decorations from current snippets
-        for (const snippet of this.snippets) {
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            if (!workspaceFolder) continue;
+    private buildDecorationsForFile(filePath: string): void {
+        const toDecoration = (s: CodeSnippet): vscode.DecorationOptions => ({
+            range: s.range,
+            hoverMessage: new vscode.MarkdownString(this.getHoverText(s.description, s.explanation, s.tags))
+        });
+        const fileSnippets = this.snippets.filter(s => isSnippetInFile(s, filePath) && !s.orphaned);
 
-            const absolutePath = path.resolve(workspaceFolder.uri.fsPath, snippet.relativePath);
-            const editor = vscode.window.visibleTextEditors.find(e => e.document.uri.fsPath === absolutePath);
-            
-            if (editor) {
-                this.addHighlightToEditor(editor, snippet.range, snippet.description, snippet.explanation);
-            }
-        }
-    }
+        const colorTag = (s: CodeSnippet) => s.drifted ? undefined : s.tags?.find(tag => this.tagDecorationTypes.has(tag));
 
-    private addHighlightToEditor(editor: vscode.TextEditor, range: vscode.Range, description: string, explanation?: string): void {
-        const filePath = editor.document.uri.fsPath;
-        if (!this.decorations.has(filePath)) {
-            this.decorations.set(filePath, []);
-        }
-        
-        // Create hover message with description and explanation
-        const hoverText = explanation ? 
-            `**📝 Saved Snippet**\n\n**Description:** ${description}\n\n**Explanation:** ${explanation}` :
-            `**📝 Saved Snippet**\n\n**Description:** ${description}`;
-        
-        this.decorations.get(filePath)!.push({
-            range: range,
-            hoverMessage: new vscode.MarkdownString(hoverText)
+        this.decorations.set(filePath, fileSnippets.filter(s => !s.drifted && !colorTag(s)).map(toDecoration));
+        this.driftedDecorations.set(filePath, fileSnippets.filter(s => s.drifted).map(toDecoration));
+
+        const byTag = new Map<string, vscode.DecorationOptions[]>();
+        fileSnippets.forEach(s => {
+            const tag = colorTag(s);
+            if (!tag) return;
+            if (!byTag.has(tag)) byTag.set(tag, []);
+            byTag.get(tag)!.push(toDecoration(s));
         });
-        
-        this.updateDecorationsForEditor(editor);
+        this.tagDecorations.set(filePath, byTag);
+    }
+
+    private getHoverText(description: string, explanation?: string, tags?: string[]): string {
+        const tagText = tags?.length ? `\n\n**Tags:** ${formatTags(tags)}` : '';
+        return explanation ?
+            `**📝 Saved Snippet**\n\n**Description:** ${description}\n\n**Explanation:** ${explanation}${tagText}` :
+            `**📝 Saved Snippet**\n\n**Description:** ${description}${tagText}`;
     }
 
     private notifySnippetsChanged() {
+        this.removeDeletedTopicSteps();
         if (this.onSnippetsChangedCallback) {
             this.onSnippetsChangedCallback([...this.snippets]);
         }
+        this.scheduleSave();
+    }
+
+    private scheduleSave() {
+        if (!this.storage) return;
+        if (this.saveTimeout) clearTimeout(this.saveTimeout);
+        this.saveTimeout = setTimeout(() => this.saveNow(), SAVE_DELAY_MS);
+    }
+
+    private saveNow() {
+        this.saveTimeout = undefined;
+        this.storage?.save(this.collections, this.activeCollectionId).catch((error: any) => {
+            vscode.window.showErrorMessage(`Failed to save snippets: ${error.message}`);
+        });
+    }
+
+    // Steps of deleted snippets drop out of their topics
+    private removeDeletedTopicSteps() {
+        const collection = this.getActiveCollection();
+        if (!collection.topics) return;
+        const ids = new Set(this.snippets.map(snippet => snippet.id));
+        collection.topics.forEach(topic => topic.snippetIds = topic.snippetIds.filter(id => ids.has(id)));
     }
 
     public dispose(): void {
+        // Changes still waiting for the delay are written before the extension goes away
+        if (this.saveTimeout) {
+            clearTimeout(this.saveTimeout);
+            this.saveNow();
+        }
         this.decorationType.dispose();
+        this.driftedDecorationType.dispose();
+        this.tagDecorationTypes.forEach(type => type.dispose());
     }
 }
\ No newline at end of file
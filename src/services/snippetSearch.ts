@@ -0,0 +1,81 @@
+import { CodeSnippet } from '../types/types';
+import { getDisplayPath } from './workspacePaths';
+
+export interface SnippetSearchResult {
+    snippet: CodeSnippet;
+    score: number;
+    /** Line of the explanation or code that matched, when the match was not in the description or path */
+    matchedLine?: string;
+}
+
+// A hit in the description counts more than one in the path, explanation or code
+const FIELD_WEIGHTS = { description: 8, path: 4, explanation: 2, code: 1 };
+
+type Field = keyof typeof FIELD_WEIGHTS;
+
+/**
+ * Snippets matching every word of the query, best first. A word matches a
+ * field when it is contained in it. In the description and path it also
+ * matches when its letters appear in order (e.g. "rtbk" in "retry backoff"),
+ * which scores lower; explanations and code are too long for that to mean much.
+ */
+export function searchSnippets(snippets: CodeSnippet[], query: string): SnippetSearchResult[] {
+    const words = query.toLowerCase().split(/\s+/).filter(word => word.length > 0);
+    if (words.length === 0) {
+        return snippets.map(snippet => ({ snippet, score: 0 }));
+    }
+
+    const results: (SnippetSearchResult & { order: number })[] = [];
+    snippets.forEach((snippet, order) => {
+        const fields: Record<Field, string> = {
+            description: snippet.description,
+            path: getDisplayPath(snippet),
+            explanation: snippet.explanation || '',
+            code: snippet.code
+        };
+
+        let score = 0;
+        let matchedLine: string | undefined;
+        for (const word of words) {
+            let best = 0;
+            let bestField: Field | undefined;
+            for (const field of Object.keys(fields) as Field[]) {
+                const fieldScore = scoreWord(fields[field].toLowerCase(), word, field === 'description' || field === 'path') * FIELD_WEIGHTS[field];
+                if (fieldScore > best) {
+                    best = fieldScore;
+                    bestField = field;
+                }
+            }
+            if (best === 0) return;
+
+            score += best;
+            if (!matchedLine && (bestField === 'explanation' || bestField === 'code')) {
+                matchedLine = fields[bestField].split('\n').find(line => line.toLowerCase().includes(word))?.trim();
+            }
+        }
+        results.push({ snippet, score, matchedLine, order });
+    });
+
+    return results
+        .sort((a, b) => b.score - a.score || a.order - b.order)
+        .map(({ snippet, score, matchedLine }) => ({ snippet, score, matchedLine }));
+}
+
+function scoreWord(text: string, word: string, fuzzy: boolean): number {
+    const index = text.indexOf(word);
+    if (index !== -1) {
+        // Words that start where a word of the text starts rank above ones found mid-word
+        return index === 0 || /[^a-z0-9]/.test(text[index - 1]) ? 3 : 2;
+    }
+    return fuzzy && isSubsequence(text, word) ? 1 : 0;
+}
+
+function isSubsequence(text: string, word: string): boolean {
+    let position = 0;
+    for (const char of word) {
+        position = text.indexOf(char, position);
+        if (position === -1) return false;
+        position++;
+    }
+    return true;
+}
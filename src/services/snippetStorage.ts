@@ -0,0 +1,51 @@
+import * as vscode from 'vscode';
+import { CodeSnippet, SerializedRange, SnippetCollection, StoredCollection, StoredSnippet } from '../types/types';
+
+const COLLECTIONS_KEY = 'dokumenter.collections';
+const ACTIVE_COLLECTION_KEY = 'dokumenter.activeCollection';
+
+export interface StoredState {
+    collections: SnippetCollection[];
+    activeCollectionId?: string;
+}
+
+export class SnippetStorage {
+    constructor(private readonly state: vscode.Memento) {}
+
+    public load(): StoredState {
+        const stored = this.state.get<StoredCollection[]>(COLLECTIONS_KEY, []);
+        return {
+            collections: stored.map(c => ({ ...c, snippets: deserializeSnippets(c.snippets || []) })),
+            activeCollectionId: this.state.get<string>(ACTIVE_COLLECTION_KEY)
+        };
+    }
+
+    public async save(collections: SnippetCollection[], activeCollectionId: string): Promise<void> {
+        const stored: StoredCollection[] = collections.map(c => ({ ...c, snippets: serializeSnippets(c.snippets) }));
+        await this.state.update(COLLECTIONS_KEY, stored);
+        await this.state.update(ACTIVE_COLLECTION_KEY, activeCollectionId);
+    }
+}
+
+export function serializeSnippets(snippets: CodeSnippet[]): StoredSnippet[] {
+    return snippets.map(s => ({ ...s, range: serializeRange(s.range) }));
+}
+
+export function deserializeSnippets(stored: StoredSnippet[]): CodeSnippet[] {
+    return stored
+        .filter(s => s && s.range)
+        .map(s => ({ ...s, range: deserializeRange(s.range) }));
+}
+
+export function serializeRange(range: vscode.Range): SerializedRange {
+    return {
+        startLine: range.start.line,
+        startCharacter: range.start.character,
+        endLine: range.end.line,
+        endCharacter: range.end.character
+    };
+}
+
+export function deserializeRange(range: SerializedRange): vscode.Range {
+    return new vscode.Range(range.startLine, range.startCharacter, range.endLine, range.endCharacter);
+}
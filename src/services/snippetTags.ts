@@ -0,0 +1,35 @@
+import * as vscode from 'vscode';
+import { CodeSnippet } from '../types/types';
+
+/** Splits "config, db http-handler" into unique tags; returns undefined when there are none */
+export function parseTags(text: string | undefined): string[] | undefined {
+    const tags = (text || '').split(/[,\s]+/).map(tag => tag.replace(/^#/, '').trim()).filter(Boolean);
+    return tags.length > 0 ? Array.from(new Set(tags)) : undefined;
+}
+
+/** Tags as shown next to a snippet's description, e.g. "#config #db" */
+export function formatTags(tags: string[] | undefined): string {
+    return (tags || []).map(tag => `#${tag}`).join(' ');
+}
+
+/** Highlight color per tag from the `codeSnippetCollector.tagColors` setting */
+export function getTagColors(): Record<string, string> {
+    return vscode.workspace.getConfiguration('codeSnippetCollector').get<Record<string, string>>('tagColors', {});
+}
+
+/** Every tag used in the snippets, sorted */
+export function getSnippetTags(snippets: CodeSnippet[]): string[] {
+    return Array.from(new Set(snippets.flatMap(snippet => snippet.tags || []))).sort();
+}
+
+/**
+ * Keeps snippets carrying at least one of `include` (all when empty) and
+ * none of `exclude`.
+ */
+export function filterSnippetsByTags(snippets: CodeSnippet[], include: string[] = [], exclude: string[] = []): CodeSnippet[] {
+    return snippets.filter(snippet => {
+        const tags = snippet.tags || [];
+        if (include.length > 0 && !tags.some(tag => include.includes(tag))) return false;
+        return !tags.some(tag => exclude.includes(tag));
+    });
+}
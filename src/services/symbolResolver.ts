@@ -0,0 +1,68 @@
+import * as vscode from 'vscode';
+
+export interface EnclosingSymbol {
+    /** Dotted path of the symbol, e.g. `OrderService.Reconcile` */
+    path: string;
+    /** Full range of the innermost function, method or type around the selection */
+    range: vscode.Range;
+}
+
+// Symbols a snippet is described by. Namespaces, packages, variables and the like are
+// left out of the path, which keeps it short: `OrderService.Reconcile`
+const DESCRIBING_KINDS = new Set([
+    vscode.SymbolKind.Function,
+    vscode.SymbolKind.Method,
+    vscode.SymbolKind.Constructor,
+    vscode.SymbolKind.Class,
+    vscode.SymbolKind.Struct,
+    vscode.SymbolKind.Interface,
+    vscode.SymbolKind.Enum
+]);
+
+/**
+ * Innermost function, method or type around `range`, as reported by the
+ * language's document symbol provider. Undefined when no provider is
+ * installed for the language or the selection is outside any such symbol.
+ */
+export async function findEnclosingSymbol(document: vscode.TextDocument, range: vscode.Range): Promise<EnclosingSymbol | undefined> {
+    let symbols: (vscode.DocumentSymbol | vscode.SymbolInformation)[] | undefined;
+    try {
+        symbols = await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[]>('vscode.executeDocumentSymbolProvider', document.uri);
+    } catch {
+        return undefined;
+    }
+    if (!symbols || symbols.length === 0) return undefined;
+
+    // Some providers still return the flat SymbolInformation list
+    if (!('children' in symbols[0])) {
+        const flat = (symbols as vscode.SymbolInformation[])
+            .filter(symbol => DESCRIBING_KINDS.has(symbol.kind) && symbol.location.range.contains(range))
+            .sort((a, b) => b.location.range.start.compareTo(a.location.range.start));
+        const innermost = flat[0];
+        if (!innermost) return undefined;
+        const name = formatSymbolName(innermost.name);
+        return {
+            path: innermost.containerName && !name.includes('.') ? `${innermost.containerName}.${name}` : name,
+            range: innermost.location.range
+        };
+    }
+
+    const names: string[] = [];
+    let found: EnclosingSymbol | undefined;
+    let level = symbols as vscode.DocumentSymbol[];
+    for (;;) {
+        const parent = level.find(symbol => symbol.range.contains(range));
+        if (!parent) break;
+        if (DESCRIBING_KINDS.has(parent.kind)) {
+            names.push(formatSymbolName(parent.name));
+            found = { path: names.join('.'), range: parent.range };
+        }
+        level = parent.children;
+    }
+    return found;
+}
+
+// Go reports methods as "(*OrderService).Reconcile"
+function formatSymbolName(name: string): string {
+    return name.replace(/^\(\*?([^)]+)\)\./, '$1.');
+}
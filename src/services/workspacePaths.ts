@@ -0,0 +1,66 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+export interface SnippetLocation {
+    /** Name of the workspace folder the file belongs to */
+    workspaceFolder?: string;
+    relativePath: string;
+}
+
+export function getSnippetLocation(uri: vscode.Uri): SnippetLocation {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    if (!folder) {
+        return { relativePath: uri.fsPath };
+    }
+    return { workspaceFolder: folder.name, relativePath: path.relative(folder.uri.fsPath, uri.fsPath) };
+}
+
+export function resolveWorkspaceFolder(location: SnippetLocation): vscode.WorkspaceFolder | undefined {
+    const folders = vscode.workspace.workspaceFolders || [];
+    // Snippets captured before multi-root support have no folder and always used the first one
+    return folders.find(f => f.name === location.workspaceFolder) || folders[0];
+}
+
+export function resolveSnippetUri(location: SnippetLocation): vscode.Uri | undefined {
+    if (path.isAbsolute(location.relativePath)) {
+        return vscode.Uri.file(location.relativePath);
+    }
+    const folder = resolveWorkspaceFolder(location);
+    return folder ? vscode.Uri.joinPath(folder.uri, location.relativePath) : undefined;
+}
+
+export function isSnippetInFile(location: SnippetLocation, filePath: string): boolean {
+    return resolveSnippetUri(location)?.fsPath === filePath;
+}
+
+/** True when the snippet sits at `oldPath` or anywhere below it */
+export function isSnippetUnderPath(location: SnippetLocation, oldPath: string): boolean {
+    const snippetPath = resolveSnippetUri(location)?.fsPath;
+    return snippetPath !== undefined && (snippetPath === oldPath || snippetPath.startsWith(oldPath + path.sep));
+}
+
+/** Path shown in exports: prefixed with the folder name when several folders are open */
+export function getDisplayPath(location: SnippetLocation): string {
+    const folderCount = vscode.workspace.workspaceFolders?.length || 0;
+    if (folderCount > 1 && location.workspaceFolder) {
+        return `${location.workspaceFolder}/${location.relativePath.split(path.sep).join('/')}`;
+    }
+    return location.relativePath;
+}
+
+/** Inverse of getDisplayPath for paths read back from exported documents */
+export function parseDisplayPath(displayPath: string): SnippetLocation {
+    const folders = vscode.workspace.workspaceFolders || [];
+    const normalized = displayPath.split('/').join(path.sep);
+    if (folders.length > 1) {
+        const [folderName, ...rest] = displayPath.split('/');
+        const folder = folders.find(f => f.name === folderName);
+        if (folder && rest.length > 0) {
+            return { workspaceFolder: folder.name, relativePath: rest.join(path.sep) };
+        }
+    }
+    if (path.isAbsolute(normalized)) {
+        return getSnippetLocation(vscode.Uri.file(normalized));
+    }
+    return { workspaceFolder: folders[0]?.name, relativePath: normalized };
+}
@@ -0,0 +1,17 @@
+import * as path from 'path';
+import { runTests } from '@vscode/test-electron';
+
+// Downloads VS Code into .vscode-test and runs the suite inside its extension host
+async function main() {
+    try {
+        await runTests({
+            extensionDevelopmentPath: path.resolve(__dirname, '../../'),
+            extensionTestsPath: path.resolve(__dirname, './suite/index')
+        });
+    } catch (error) {
+        console.error('Failed to run tests', error);
+        process.exit(1);
+    }
+}
+
+main();
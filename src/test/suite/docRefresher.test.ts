@@ -0,0 +1,148 @@
+import * as assert from 'assert';
+import { AnchorRange, formatAnchorLines, formatCodeAnchor, hashCode, hasCodeAnchors, parseCodeAnchor, refreshDocumentation } from '../../services/docRefresher';
+
+const SOURCE = [
+    'package orders',
+    '',
+    'func Reconcile(ctx context.Context) error {',
+    '    orders, err := store.Pending(ctx)',
+    '    if err != nil {',
+    '        return err',
+    '    }',
+    '    return apply(orders)',
+    '}',
+    '',
+    'func apply(orders []Order) error {',
+    '    return nil',
+    '}',
+    ''
+].join('\n');
+
+const RECONCILE = SOURCE.split('\n').slice(2, 9).join('\n');
+
+// An exported section as the markdown exporter writes it
+function exportedSection(ranges: AnchorRange[], codes: string[], path = 'svc/orders.go'): string {
+    return [
+        '## 1. Reconcile',
+        '',
+        `**File:** \`${path}\``,
+        '',
+        `**Lines:** ${formatAnchorLines(ranges)}`,
+        '',
+        '**Code:**',
+        formatCodeAnchor({ path, ranges, hashes: codes.map(hashCode) }),
+        '```go',
+        codes.join('\n'),
+        '```',
+        ''
+    ].join('\n');
+}
+
+function refresh(content: string, source: string | undefined = SOURCE) {
+    return refreshDocumentation(content, path => path === 'svc/orders.go' ? source : undefined);
+}
+
+suite('docRefresher', () => {
+    test('writes and reads back anchors', () => {
+        const anchor = { path: 'svc/"quoted".go', ranges: [{ startLine: 3, startColumn: 1, endLine: 9, endColumn: 2 }], hashes: ['abc'] };
+        assert.deepStrictEqual(parseCodeAnchor(`  ${formatCodeAnchor(anchor)}`), anchor);
+        assert.strictEqual(parseCodeAnchor('<!-- something else -->'), undefined);
+    });
+
+    test('tells exported documents from other markdown', () => {
+        const anchor = { path: 'svc/orders.go', ranges: [{ startLine: 3, startColumn: 1, endLine: 9, endColumn: 2 }], hashes: ['abc'] };
+        assert.strictEqual(hasCodeAnchors(`# Notes\n\n${formatCodeAnchor(anchor)}\n`), true);
+        assert.strictEqual(hasCodeAnchors('# Notes\n\n**File:** `svc/orders.go`\n'), false);
+    });
+
+    test('does not count the line a range ends at column 1 of', () => {
+        assert.strictEqual(formatAnchorLines([
+            { startLine: 3, startColumn: 1, endLine: 10, endColumn: 1 },
+            { startLine: 12, startColumn: 5, endLine: 12, endColumn: 9 }
+        ]), '3-9, 12');
+    });
+
+    test('leaves up-to-date blocks alone', () => {
+        const content = exportedSection([{ startLine: 3, startColumn: 1, endLine: 9, endColumn: 2 }], [RECONCILE]);
+        const result = refresh(content);
+        assert.strictEqual(result.content, content);
+        assert.strictEqual(result.unchanged, 1);
+        assert.strictEqual(result.updated, 0);
+    });
+
+    test('updates the line numbers of code that moved', () => {
+        const content = exportedSection([{ startLine: 3, startColumn: 1, endLine: 9, endColumn: 2 }], [RECONCILE]);
+        const result = refresh(content, `// Package orders\n${SOURCE}`);
+        assert.strictEqual(result.updated, 1);
+        assert.ok(result.content.includes('**Lines:** 4-10'));
+        assert.deepStrictEqual(parseCodeAnchor(result.content.split('\n')[7])?.ranges, [{ startLine: 4, startColumn: 1, endLine: 10, endColumn: 2 }]);
+    });
+
+    test('replaces changed code with the closest matching lines', () => {
+        const content = exportedSection([{ startLine: 3, startColumn: 1, endLine: 9, endColumn: 2 }], [RECONCILE]);
+        const result = refresh(content, SOURCE.replace('return apply(orders)', 'return apply(ctx, orders)'));
+        assert.strictEqual(result.updated, 1);
+        assert.ok(result.content.includes('    return apply(ctx, orders)\n}\n```'));
+        assert.ok(!result.content.includes('return apply(orders)'));
+    });
+
+    test('keeps whole-line ranges to their own lines when refreshing changed code', () => {
+        const range = { startLine: 3, startColumn: 1, endLine: 10, endColumn: 1 };
+        const content = exportedSection([range], [`${RECONCILE}\n`]);
+        // No blank line after the function, so a line too many would show up in the block
+        const changed = SOURCE.replace('return apply(orders)', 'return apply(ctx, orders)').replace('}\n\nfunc apply', '}\nfunc apply');
+
+        const result = refresh(content, changed);
+        assert.strictEqual(result.updated, 1);
+        assert.deepStrictEqual(parseCodeAnchor(result.content.split('\n')[7])?.ranges, [range]);
+        assert.ok(result.content.includes('    return apply(ctx, orders)\n}\n\n```'));
+        assert.ok(!result.content.includes('func apply'));
+        assert.ok(result.content.includes('**Lines:** 3-9'));
+
+        // A second refresh finds nothing more to do
+        const again = refresh(result.content, changed);
+        assert.strictEqual(again.updated, 0);
+        assert.strictEqual(again.unchanged, 1);
+    });
+
+    test('refreshes each range of a grouped block', () => {
+        const ranges = [
+            { startLine: 1, startColumn: 1, endLine: 1, endColumn: 15 },
+            { startLine: 3, startColumn: 1, endLine: 9, endColumn: 2 }
+        ];
+        const content = exportedSection(ranges, ['package orders', RECONCILE]);
+        const result = refresh(content, `// Package orders\n${SOURCE.replace('return apply(orders)', 'return apply(ctx, orders)')}`);
+        assert.strictEqual(result.updated, 1);
+        assert.ok(result.content.includes('**Lines:** 2, 4-10'));
+        assert.ok(result.content.includes('```go\npackage orders\nfunc Reconcile(ctx context.Context) error {\n'));
+        assert.ok(result.content.includes('    return apply(ctx, orders)\n}\n```'));
+    });
+
+    test('reports blocks it cannot resolve and leaves them untouched', () => {
+        const range = { startLine: 3, startColumn: 1, endLine: 9, endColumn: 2 };
+        const missing = exportedSection([range], [RECONCILE], 'svc/deleted.go');
+        const gone = exportedSection([range], [RECONCILE]);
+        const edited = exportedSection([range], [RECONCILE]).replace('    if err != nil {\n', '');
+
+        const result = refresh(`${missing}\n${gone}\n${edited}`, 'package orders\n\nfunc main() {}\n');
+        assert.strictEqual(result.updated, 0);
+        assert.strictEqual(result.content, `${missing}\n${gone}\n${edited}`);
+        assert.deepStrictEqual(result.problems.map(problem => problem.message), [
+            'svc/deleted.go could not be found.',
+            'The code of lines 3-9 could not be found in svc/orders.go any more.',
+            'The code block was edited by hand and no longer matches its anchor.'
+        ]);
+    });
+
+    test('reports unclosed code blocks', () => {
+        const content = exportedSection([{ startLine: 3, startColumn: 1, endLine: 9, endColumn: 2 }], [RECONCILE]).replace(/```\n$/, '');
+        assert.deepStrictEqual(refresh(content).problems.map(problem => problem.line), [7]);
+    });
+
+    test('keeps the line endings of the document', () => {
+        const content = exportedSection([{ startLine: 3, startColumn: 1, endLine: 9, endColumn: 2 }], [RECONCILE]).replace(/\n/g, '\r\n');
+        const result = refresh(content, `// Package orders\n${SOURCE}`);
+        assert.strictEqual(result.updated, 1);
+        assert.ok(!/[^\r]\n/.test(result.content));
+    });
+});
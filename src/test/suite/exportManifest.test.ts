@@ -0,0 +1,15 @@
+import * as assert from 'assert';
+import { findStaleFiles } from '../../services/exportManifest';
+
+suite('exportManifest', () => {
+    test('lists the files the new export no longer writes', () => {
+        const previous = ['index.md', 'services/orders.md', 'files/orders/reconcile.go.md'];
+        const current = ['index.md', 'services/orders.md'];
+        assert.deepStrictEqual(findStaleFiles(previous, current), ['files/orders/reconcile.go.md']);
+    });
+
+    test('ignores entries outside the export folder', () => {
+        const previous = ['../notes.md', '/etc/hosts', 'C:/Windows/win.ini', 'docs/../../x.md', 'docs//a.md', 'docs/old.md'];
+        assert.deepStrictEqual(findStaleFiles(previous, []), ['docs/old.md']);
+    });
+});
@@ -0,0 +1,180 @@
+import * as assert from 'assert';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { buildPermalink, findGitRepository, hasUncommittedChanges } from '../../services/gitInfo';
+
+const SHA = '3f786850e387550fdab836ed7e6dc881de23001b';
+
+function write(file: string, content: string | Buffer) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+}
+
+function blobSha(content: string): Buffer {
+    return crypto.createHash('sha1').update(`blob ${Buffer.byteLength(content)}\0`).update(content).digest();
+}
+
+// Version 2 index with zeroed stat data, which is all the parser looks past
+function buildIndex(files: { [repoPath: string]: string }): Buffer {
+    const entries = Object.entries(files).map(([repoPath, content]) => {
+        const name = Buffer.from(repoPath, 'utf8');
+        const entry = Buffer.alloc(Math.ceil((62 + name.length + 1) / 8) * 8);
+        blobSha(content).copy(entry, 40);
+        entry.writeUInt16BE(Math.min(name.length, 0xfff), 60);
+        name.copy(entry, 62);
+        return entry;
+    });
+    const header = Buffer.alloc(12);
+    header.write('DIRC', 0, 'ascii');
+    header.writeUInt32BE(2, 4);
+    header.writeUInt32BE(entries.length, 8);
+    return Buffer.concat([header, ...entries]);
+}
+
+suite('gitInfo', () => {
+    let root: string;
+
+    setup(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'dokumenter-git-'));
+        write(path.join(root, '.git', 'HEAD'), 'ref: refs/heads/main\n');
+        write(path.join(root, '.git', 'config'), '[core]\n\tbare = false\n[remote "upstream"]\n\turl = git@github.com:other/fork.git\n[remote "origin"]\n\turl = git@github.com:acme/orders.git\n');
+    });
+
+    teardown(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    suite('findGitRepository', () => {
+        test('reads the HEAD commit and origin remote from a nested file', async () => {
+            write(path.join(root, '.git', 'refs', 'heads', 'main'), `${SHA}\n`);
+            const repository = await findGitRepository(path.join(root, 'svc', 'orders', 'service.go'));
+            assert.strictEqual(repository?.root, root);
+            assert.strictEqual(repository?.headSha, SHA);
+            assert.strictEqual(repository?.remoteUrl, 'git@github.com:acme/orders.git');
+        });
+
+        test('shares one lookup between the files of a cache', async () => {
+            write(path.join(root, '.git', 'refs', 'heads', 'main'), `${SHA}\n`);
+            const cache = new Map();
+            const first = await findGitRepository(path.join(root, 'svc', 'orders', 'service.go'), cache);
+            const second = await findGitRepository(path.join(root, 'svc', 'billing', 'invoice.go'), cache);
+            assert.ok(first);
+            assert.strictEqual(second, first);
+            assert.notStrictEqual(await findGitRepository(path.join(root, 'svc', 'billing', 'invoice.go')), first);
+        });
+
+        test('falls back to packed refs', async () => {
+            write(path.join(root, '.git', 'packed-refs'), `# pack-refs with: peeled fully-peeled sorted\n${SHA} refs/heads/main\n`);
+            const repository = await findGitRepository(path.join(root, 'main.go'));
+            assert.strictEqual(repository?.headSha, SHA);
+        });
+
+        test('reads a detached HEAD', async () => {
+            write(path.join(root, '.git', 'HEAD'), `${SHA}\n`);
+            const repository = await findGitRepository(path.join(root, 'main.go'));
+            assert.strictEqual(repository?.headSha, SHA);
+        });
+
+        test('follows the .git file of a worktree to its common directory', async () => {
+            const worktree = path.join(root, 'worktrees', 'feature');
+            const gitDir = path.join(root, '.git', 'worktrees', 'feature');
+            write(path.join(worktree, '.git'), `gitdir: ${gitDir}\n`);
+            write(path.join(gitDir, 'HEAD'), 'ref: refs/heads/feature\n');
+            write(path.join(gitDir, 'commondir'), '../..\n');
+            write(path.join(root, '.git', 'refs', 'heads', 'feature'), `${SHA}\n`);
+
+            const repository = await findGitRepository(path.join(worktree, 'main.go'));
+            assert.strictEqual(repository?.root, worktree);
+            assert.strictEqual(repository?.gitDir, gitDir);
+            assert.strictEqual(repository?.commonDir, path.join(root, '.git'));
+            assert.strictEqual(repository?.headSha, SHA);
+            assert.strictEqual(repository?.remoteUrl, 'git@github.com:acme/orders.git');
+        });
+    });
+
+    suite('hasUncommittedChanges', () => {
+        const content = 'package orders\n\nfunc Reconcile() {}\n';
+
+        test('compares files with their blob in the index', async () => {
+            write(path.join(root, 'svc', 'orders.go'), content);
+            write(path.join(root, 'svc', 'edited.go'), `${content}// todo\n`);
+            write(path.join(root, 'untracked.go'), content);
+            write(path.join(root, '.git', 'index'), buildIndex({ 'svc/orders.go': content, 'svc/edited.go': content }));
+            const repository = (await findGitRepository(path.join(root, 'svc', 'orders.go')))!;
+
+            assert.strictEqual(await hasUncommittedChanges(repository, path.join(root, 'svc', 'orders.go')), false);
+            assert.strictEqual(await hasUncommittedChanges(repository, path.join(root, 'svc', 'edited.go')), true);
+            assert.strictEqual(await hasUncommittedChanges(repository, path.join(root, 'untracked.go')), true);
+        });
+
+        test('ignores line endings converted on checkout', async () => {
+            write(path.join(root, 'orders.go'), content.replace(/\n/g, '\r\n'));
+            write(path.join(root, '.git', 'index'), buildIndex({ 'orders.go': content }));
+            const repository = (await findGitRepository(path.join(root, 'orders.go')))!;
+            assert.strictEqual(await hasUncommittedChanges(repository, path.join(root, 'orders.go')), false);
+        });
+
+        test('cannot tell without a readable index', async () => {
+            write(path.join(root, 'orders.go'), content);
+            const repository = (await findGitRepository(path.join(root, 'orders.go')))!;
+            assert.strictEqual(await hasUncommittedChanges(repository, path.join(root, 'orders.go')), undefined);
+
+            write(path.join(root, '.git', 'index'), Buffer.from('not an index'));
+            const reloaded = (await findGitRepository(path.join(root, 'orders.go')))!;
+            assert.strictEqual(await hasUncommittedChanges(reloaded, path.join(root, 'orders.go')), undefined);
+        });
+
+        test('reads the index once per repository lookup', async () => {
+            write(path.join(root, 'orders.go'), content);
+            write(path.join(root, '.git', 'index'), buildIndex({ 'orders.go': content }));
+            const repository = (await findGitRepository(path.join(root, 'orders.go')))!;
+            assert.strictEqual(await hasUncommittedChanges(repository, path.join(root, 'orders.go')), false);
+
+            write(path.join(root, '.git', 'index'), buildIndex({}));
+            assert.strictEqual(await hasUncommittedChanges(repository, path.join(root, 'orders.go')), false);
+            const reloaded = (await findGitRepository(path.join(root, 'orders.go')))!;
+            assert.strictEqual(await hasUncommittedChanges(reloaded, path.join(root, 'orders.go')), true);
+        });
+    });
+
+    suite('buildPermalink', () => {
+        test('links GitHub remotes in SSH and HTTPS form', () => {
+            const expected = `https://github.com/acme/orders/blob/${SHA}/svc/orders.go#L10-L14`;
+            assert.strictEqual(buildPermalink('git@github.com:acme/orders.git', SHA, 'svc/orders.go', 10, 14), expected);
+            assert.strictEqual(buildPermalink('https://token@github.com/acme/orders/', SHA, 'svc/orders.go', 10, 14), expected);
+        });
+
+        test('uses the line syntax of GitLab and Bitbucket', () => {
+            assert.strictEqual(
+                buildPermalink('ssh://git@gitlab.com:2222/acme/orders.git', SHA, 'main.go', 3, 5),
+                `https://gitlab.com/acme/orders/-/blob/${SHA}/main.go#L3-5`
+            );
+            assert.strictEqual(
+                buildPermalink('git@bitbucket.org:acme/orders.git', SHA, 'main.go', 3, 5),
+                `https://bitbucket.org/acme/orders/src/${SHA}/main.go#lines-3:5`
+            );
+        });
+
+        test('turns Azure DevOps SSH remotes into web links', () => {
+            assert.strictEqual(
+                buildPermalink('git@ssh.dev.azure.com:v3/acme/shop/orders', SHA, 'svc/orders.go', 3, 5),
+                `https://dev.azure.com/acme/shop/_git/orders?path=/svc/orders.go&version=GC${SHA}&line=3&lineEnd=6` +
+                '&lineStartColumn=1&lineEndColumn=1&lineStyle=plain&_a=contents'
+            );
+        });
+
+        test('encodes path segments', () => {
+            assert.strictEqual(
+                buildPermalink('git@github.com:acme/orders.git', SHA, 'docs/read me.md', 1, 1),
+                `https://github.com/acme/orders/blob/${SHA}/docs/read%20me.md#L1-L1`
+            );
+        });
+
+        test('gives up on remotes that are not web hosted', () => {
+            assert.strictEqual(buildPermalink('/srv/git/orders.git', SHA, 'main.go', 1, 2), undefined);
+            assert.strictEqual(buildPermalink('file:///srv/git/orders.git', SHA, 'main.go', 1, 2), undefined);
+        });
+    });
+});
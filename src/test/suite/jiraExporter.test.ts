@@ -0,0 +1,32 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { CodeSnippet } from '../../types/types';
+import { JiraExporter } from '../../exporters/jiraExporter';
+
+function snippet(code: string): CodeSnippet {
+    return {
+        relativePath: 'docs/render.js',
+        code,
+        language: 'javascript',
+        description: 'Render macros',
+        range: new vscode.Range(0, 0, 1, 0)
+    };
+}
+
+function codeBlocks(content: string): string[] {
+    return content.split('\n').filter(line => /^\{code/.test(line));
+}
+
+suite('jiraExporter', () => {
+    test('keeps "{code}" in the snippet from closing the macro', () => {
+        const content = new JiraExporter().render([snippet('const open = "{code:java}";\nconst close = "{CODE}";')]);
+        assert.deepStrictEqual(codeBlocks(content), ['{code:javascript}', '{code}']);
+        assert.ok(content.includes('const open = "{\u200Bcode:java}";'));
+        assert.ok(content.includes('const close = "{\u200BCODE}";'));
+    });
+
+    test('leaves other braces in the code alone', () => {
+        const content = new JiraExporter().render([snippet('if (a) { return {}; }')]);
+        assert.ok(content.includes('\nif (a) { return {}; }\n{code}'));
+    });
+});
@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { CodeSnippet } from '../../types/types';
+import { JsonExporter, JsonSnippetDocument } from '../../exporters/jsonExporter';
+import { parseSnippetJson } from '../../services/jsonImporter';
+
+function snippet(id: string, description: string, startLine: number, endLine: number): CodeSnippet {
+    return {
+        id,
+        relativePath: 'svc/orders.go',
+        code: `// lines ${startLine}-${endLine}`,
+        language: 'go',
+        description,
+        range: new vscode.Range(startLine - 1, 0, endLine - 1, 10)
+    };
+}
+
+suite('jsonImporter', () => {
+    const load = snippet('a1', 'Load pending orders', 10, 14);
+    const apply = snippet('b2', 'Apply orders', 20, 22);
+    const content = new JsonExporter().render([load, apply], {
+        title: 'orders',
+        topics: [{ name: 'Reconcile', intro: 'Start at the loader.', snippets: [apply, load] }]
+    });
+
+    test('writes topics with the ids of their steps', () => {
+        const document = JSON.parse(content) as JsonSnippetDocument;
+        assert.strictEqual(document.schemaVersion, 2);
+        assert.deepStrictEqual(document.topics, [{ name: 'Reconcile', intro: 'Start at the loader.', snippetIds: ['b2', 'a1'] }]);
+    });
+
+    test('restores snippets without their exported ids', () => {
+        const { name, snippets } = parseSnippetJson(content);
+        assert.strictEqual(name, 'orders');
+        assert.deepStrictEqual(snippets.map(s => [s.id, s.description, s.range.start.line]), [
+            [undefined, 'Load pending orders', 9],
+            [undefined, 'Apply orders', 19]
+        ]);
+    });
+
+    test('links topic steps to the restored snippets', () => {
+        const { snippets, topics } = parseSnippetJson(content);
+        assert.strictEqual(topics.length, 1);
+        assert.strictEqual(topics[0].intro, 'Start at the loader.');
+        assert.strictEqual(topics[0].snippets[0], snippets[1]);
+        assert.strictEqual(topics[0].snippets[1], snippets[0]);
+    });
+
+    test('reads version 1 files without topics', () => {
+        const document = JSON.parse(content) as JsonSnippetDocument;
+        delete document.topics;
+        document.schemaVersion = 1;
+        const { snippets, topics } = parseSnippetJson(JSON.stringify(document));
+        assert.strictEqual(snippets.length, 2);
+        assert.deepStrictEqual(topics, []);
+    });
+
+    test('rejects newer schema versions', () => {
+        const document = JSON.parse(content) as JsonSnippetDocument;
+        document.schemaVersion = 3;
+        assert.throws(() => parseSnippetJson(JSON.stringify(document)), /newer than the supported version 2/);
+    });
+});
@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { adjustRangeForChange } from '../../services/rangeTracker';
+
+function change(startLine: number, startCharacter: number, endLine: number, endCharacter: number, text: string): vscode.TextDocumentContentChangeEvent {
+    return { range: new vscode.Range(startLine, startCharacter, endLine, endCharacter), rangeOffset: 0, rangeLength: 0, text };
+}
+
+function assertRange(actual: vscode.Range | undefined, startLine: number, startCharacter: number, endLine: number, endCharacter: number) {
+    assert.ok(actual);
+    assert.deepStrictEqual(
+        [actual.start.line, actual.start.character, actual.end.line, actual.end.character],
+        [startLine, startCharacter, endLine, endCharacter]
+    );
+}
+
+suite('rangeTracker', () => {
+    const snippet = new vscode.Range(10, 4, 14, 1);
+
+    test('leaves the range alone for edits below it', () => {
+        const adjusted = adjustRangeForChange(snippet, change(20, 0, 22, 0, ''));
+        assertRange(adjusted?.range, 10, 4, 14, 1);
+        assert.strictEqual(adjusted?.contentChanged, false);
+    });
+
+    test('treats text appended right at the end as outside the snippet', () => {
+        const adjusted = adjustRangeForChange(snippet, change(14, 1, 14, 1, '\n\nfunc next() {}'));
+        assertRange(adjusted?.range, 10, 4, 14, 1);
+        assert.strictEqual(adjusted?.contentChanged, false);
+    });
+
+    test('moves the range down when lines are inserted above it', () => {
+        const adjusted = adjustRangeForChange(snippet, change(2, 0, 2, 0, 'import "os"\nimport "io"\n'));
+        assertRange(adjusted?.range, 12, 4, 16, 1);
+        assert.strictEqual(adjusted?.contentChanged, false);
+    });
+
+    test('moves the range up when lines above it are deleted', () => {
+        const adjusted = adjustRangeForChange(snippet, change(3, 0, 6, 0, ''));
+        assertRange(adjusted?.range, 7, 4, 11, 1);
+    });
+
+    test('shifts the start column for typing before the snippet on its first line', () => {
+        const adjusted = adjustRangeForChange(snippet, change(10, 0, 10, 0, '  '));
+        assertRange(adjusted?.range, 10, 6, 14, 1);
+        assert.strictEqual(adjusted?.contentChanged, false);
+    });
+
+    test('grows the range for lines typed inside it', () => {
+        const adjusted = adjustRangeForChange(snippet, change(12, 0, 12, 0, '    log.Println()\n'));
+        assertRange(adjusted?.range, 10, 4, 15, 1);
+        assert.strictEqual(adjusted?.contentChanged, true);
+    });
+
+    test('shrinks the range for lines deleted inside it', () => {
+        const adjusted = adjustRangeForChange(snippet, change(11, 0, 13, 0, ''));
+        assertRange(adjusted?.range, 10, 4, 12, 1);
+        assert.strictEqual(adjusted?.contentChanged, true);
+    });
+
+    test('ends the range with the new text of an edit that runs past its end', () => {
+        const adjusted = adjustRangeForChange(snippet, change(13, 0, 16, 0, 'return nil\n}'));
+        assertRange(adjusted?.range, 10, 4, 14, 1);
+        assert.strictEqual(adjusted?.contentChanged, true);
+    });
+
+    test('starts the range with an edit that begins before it', () => {
+        const adjusted = adjustRangeForChange(snippet, change(9, 0, 11, 0, '// moved\n'));
+        assertRange(adjusted?.range, 9, 0, 13, 1);
+        assert.strictEqual(adjusted?.contentChanged, true);
+    });
+
+    test('gives up when an edit replaces the whole snippet', () => {
+        assert.strictEqual(adjustRangeForChange(snippet, change(0, 0, 40, 0, 'package main\n')), undefined);
+        assert.strictEqual(adjustRangeForChange(snippet, change(10, 4, 14, 1, '')), undefined);
+    });
+});
@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { findSnippetAnchor } from '../../services/snippetAnchor';
+
+function openDocument(lines: string[], eol = '\n'): Thenable<vscode.TextDocument> {
+    return vscode.workspace.openTextDocument({ content: lines.join(eol), language: 'go' });
+}
+
+function lines(range: vscode.Range | undefined): number[] {
+    assert.ok(range);
+    return [range.start.line, range.start.character, range.end.line, range.end.character];
+}
+
+const SOURCE = [
+    'package orders',
+    '',
+    'func (s *OrderService) Reconcile(ctx context.Context) error {',
+    '    orders, err := s.store.Pending(ctx)',
+    '    if err != nil {',
+    '        return err',
+    '    }',
+    '    return s.apply(orders)',
+    '}',
+    ''
+];
+
+const RECONCILE = SOURCE.slice(2, 9).join('\n');
+
+suite('snippetAnchor', () => {
+    test('finds unchanged code where it was', async () => {
+        const document = await openDocument(SOURCE);
+        const anchor = findSnippetAnchor(document, RECONCILE, 2);
+        assert.deepStrictEqual(lines(anchor?.range), [2, 0, 8, 1]);
+        assert.strictEqual(anchor?.exact, true);
+    });
+
+    test('finds code that moved down', async () => {
+        const document = await openDocument(['package orders', '', 'import "context"', '', ...SOURCE.slice(2)]);
+        assert.deepStrictEqual(lines(findSnippetAnchor(document, RECONCILE, 2)?.range), [4, 0, 10, 1]);
+    });
+
+    test('prefers the occurrence closest to the previous line', async () => {
+        const document = await openDocument(['if err != nil {', '    return err', '}', 'x := 1', 'if err != nil {', '    return err', '}']);
+        const code = 'if err != nil {\n    return err\n}';
+        assert.strictEqual(findSnippetAnchor(document, code, 0)?.range.start.line, 0);
+        assert.strictEqual(findSnippetAnchor(document, code, 5)?.range.start.line, 4);
+    });
+
+    test('matches code captured with other line endings', async () => {
+        const document = await openDocument(SOURCE, '\r\n');
+        const anchor = findSnippetAnchor(document, RECONCILE, 2);
+        assert.deepStrictEqual(lines(anchor?.range), [2, 0, 8, 1]);
+        assert.strictEqual(anchor?.exact, true);
+    });
+
+    test('falls back to the closest similar lines when the code was edited', async () => {
+        const edited = [...SOURCE];
+        edited[3] = '    orders, err := s.store.Pending(ctx, limit)';
+        const document = await openDocument(['// Package orders reconciles payments', ...edited]);
+        const anchor = findSnippetAnchor(document, RECONCILE, 2);
+        assert.deepStrictEqual(lines(anchor?.range), [3, 0, 9, 1]);
+        assert.strictEqual(anchor?.exact, false);
+    });
+
+    test('keeps a whole-line snippet ending at the start of the next line', async () => {
+        const edited = [...SOURCE];
+        edited[7] = '    return s.applyAll(orders)';
+        const document = await openDocument([...edited.slice(0, 9), 'var ErrClosed = errors.New("closed")']);
+        const anchor = findSnippetAnchor(document, `${RECONCILE}\n`, 2);
+        assert.deepStrictEqual(lines(anchor?.range), [2, 0, 9, 0]);
+        assert.strictEqual(anchor?.exact, false);
+    });
+
+    test('gives up when the code is gone', async () => {
+        const document = await openDocument(['package orders', '', 'func main() {}']);
+        assert.strictEqual(findSnippetAnchor(document, RECONCILE, 2), undefined);
+    });
+});
@@ -0,0 +1,97 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { CodeSnippet } from '../../types/types';
+import { TemplateExporter, TemplateSyntaxError } from '../../exporters/templateExporter';
+
+function snippet(description: string, startLine: number, endLine: number, extra: Partial<CodeSnippet> = {}): CodeSnippet {
+    return {
+        relativePath: 'svc/orders.go',
+        code: `// lines ${startLine}-${endLine}`,
+        language: 'go',
+        description,
+        range: new vscode.Range(startLine - 1, 0, endLine - 1, 10),
+        ...extra
+    };
+}
+
+function compileError(source: string): TemplateSyntaxError {
+    try {
+        new TemplateExporter('broken', 'md', source);
+    } catch (error) {
+        assert.ok(error instanceof TemplateSyntaxError);
+        return error;
+    }
+    assert.fail('Expected the template to be rejected');
+}
+
+suite('templateExporter', () => {
+    const snippets = [
+        snippet('Load pending orders', 10, 14, { explanation: 'Reads from the outbox.' }),
+        snippet('Apply orders', 20, 22),
+        snippet('Load pending orders', 30, 31)
+    ];
+
+    test('takes its name and file extension from the template file', () => {
+        const exporter = new TemplateExporter('review', 'md', '');
+        assert.strictEqual(exporter.id, 'template:review');
+        assert.strictEqual(exporter.fileExtension, 'md');
+    });
+
+    test('loops over groups and their snippets', () => {
+        const exporter = new TemplateExporter('review', 'md',
+            '{{#each groups}}{{index}}. {{title}} ({{lines}})\n{{#each snippets}}  - {{startLine}}-{{endLine}}\n{{/each}}{{/each}}');
+        assert.strictEqual(exporter.render(snippets),
+            '1. Load pending orders Total - 2 (10-14, 30-31)\n  - 10-14\n  - 30-31\n' +
+            '2. Apply orders (20-22)\n  - 20-22\n');
+    });
+
+    test('renders the else branch for empty values', () => {
+        const exporter = new TemplateExporter('review', 'md', '{{#each groups}}{{#if explanation}}{{explanation}}{{else}}-{{/if}}|{{/each}}');
+        assert.strictEqual(exporter.render(snippets), 'Reads from the outbox.|-|');
+    });
+
+    test('uses the collection name as the title', () => {
+        const exporter = new TemplateExporter('review', 'md', '{{title}}: {{groupCount}} groups, {{snippetCount}} snippets');
+        assert.strictEqual(exporter.render(snippets, { title: 'Checkout flow' }), 'Checkout flow: 2 groups, 3 snippets');
+        assert.strictEqual(exporter.render(snippets), 'Code Snippets Collection: 2 groups, 3 snippets');
+    });
+
+    test('gives each snippet its capture date', () => {
+        const capturedAt = '2024-03-01T09:30:00.000Z';
+        const exporter = new TemplateExporter('review', 'md', '{{#each snippets}}[{{date}}]{{/each}}');
+        assert.strictEqual(
+            exporter.render([snippet('Captured', 1, 2, { capturedAt }), snippet('Imported', 3, 4)]),
+            `[${new Date(capturedAt).toLocaleString()}][]`
+        );
+    });
+
+    test('asks the context for permalinks', () => {
+        const exporter = new TemplateExporter('review', 'md', '{{#each groups}}{{permalink}}\n{{/each}}');
+        const rendered = exporter.render(snippets, {
+            getPermalink: (s, startLine, endLine) => `https://example.com/${s.relativePath}#L${startLine}-L${endLine}`
+        });
+        assert.strictEqual(rendered, 'https://example.com/svc/orders.go#L10-L31\nhttps://example.com/svc/orders.go#L20-L22\n');
+    });
+
+    test('reports unknown placeholders with their position', () => {
+        const error = compileError('# {{title}}\n\n{{#each groups}}\n  {{descripton}}\n{{/each}}');
+        assert.strictEqual(error.line, 4);
+        assert.strictEqual(error.column, 3);
+        assert.match(error.message, /Unknown placeholder "descripton" inside a group/);
+    });
+
+    test('rejects group fields outside of a loop', () => {
+        assert.match(compileError('{{code}}').message, /Unknown placeholder "code" inside the document/);
+    });
+
+    test('rejects loops the scope does not have', () => {
+        assert.match(compileError('{{#each snippets}}{{#each groups}}{{/each}}{{/each}}').message, /Cannot loop over "groups" here/);
+    });
+
+    test('reports unbalanced blocks', () => {
+        assert.match(compileError('{{#each groups}}\n{{#if explanation}}\n{{/each}}').message, /"\{\{\/each\}\}" closes "\{\{#if explanation\}\}" opened at line 2/);
+        assert.match(compileError('{{#each groups}}').message, /is never closed/);
+        assert.match(compileError('{{else}}').message, /without a matching/);
+        assert.match(compileError('{{title}} }}').message, /Unmatched "\}\}"/);
+    });
+});
@@ -1,10 +1,104 @@
 import * as vscode from 'vscode';
 
 export interface CodeSnippet {
+    /** Stable identifier, assigned when the snippet enters a collection */
+    id?: string;
+    /** Name of the workspace folder `relativePath` is relative to */
+    workspaceFolder?: string;
     relativePath: string;
     code: string;
     language: string;
     description: string;
     explanation?: string;
+    /** Labels such as `config` or `security-concern` */
+    tags?: string[];
+    /** Dotted path of the function, method or type around the code, e.g. `OrderService.Reconcile` */
+    symbol?: string;
     range: vscode.Range;
+    /** ISO timestamp of when the snippet was captured */
+    capturedAt?: string;
+    /** Set when the snippet's code could no longer be found in its file */
+    orphaned?: boolean;
+    /** Set when the source at the snippet's anchor no longer matches the captured code */
+    drifted?: boolean;
+    /** Source text the user chose to ignore when keeping the captured code */
+    ignoredDriftCode?: string;
+}
+
+export interface SerializedRange {
+    startLine: number;
+    startCharacter: number;
+    endLine: number;
+    endCharacter: number;
+}
+
+export interface StoredSnippet extends Omit<CodeSnippet, 'range'> {
+    range: SerializedRange;
+}
+
+/** Named walk through snippets of any files, e.g. a request flow from handler to SQL */
+export interface SnippetTopic {
+    id: string;
+    name: string;
+    /** Paragraph written before the first step */
+    intro?: string;
+    /** Ids of the snippets of each step, in order */
+    snippetIds: string[];
+}
+
+export interface SnippetCollection {
+    id: string;
+    name: string;
+    snippets: CodeSnippet[];
+    topics?: SnippetTopic[];
+}
+
+export interface StoredCollection extends Omit<SnippetCollection, 'snippets'> {
+    snippets: StoredSnippet[];
+}
+
+export interface ExportContext {
+    /** Name of the exported collection */
+    title?: string;
+    /** Section the groups by tag instead of listing them in collection order */
+    groupByTag?: boolean;
+    /** Topics to write before the groups; their snippets are left out of the groups */
+    topics?: ExportTopic[];
+    /** Web link to a 1-based line range of the snippet's file at the current commit */
+    getPermalink?(snippet: CodeSnippet, startLine: number, endLine: number): string | undefined;
+}
+
+/** Topic with its steps resolved to the exported snippets */
+export interface ExportTopic {
+    name: string;
+    intro?: string;
+    snippets: CodeSnippet[];
+}
+
+export interface SnippetExporter {
+    id: string;
+    /** Label shown in the format picker */
+    name: string;
+    /** Without the leading dot */
+    fileExtension: string;
+    /** Workspace-relative folder the save dialog starts in */
+    defaultFolder?: string;
+    render(snippets: CodeSnippet[], context?: ExportContext): string;
+}
+
+export interface ExportFile {
+    /** Path inside the export folder, always with `/` separators */
+    path: string;
+    content: string;
+}
+
+/** Exporter that writes a folder of files instead of a single document */
+export interface DirectoryExporter {
+    id: string;
+    /** Label shown in the format picker */
+    name: string;
+    /** Short note on the output shown next to the name */
+    description: string;
+    /** The first file is opened once the export is written */
+    renderFiles(snippets: CodeSnippet[], context?: ExportContext): ExportFile[];
 }
@@ -0,0 +1,203 @@
+import * as vscode from 'vscode';
+import { CodeSnippet } from '../types/types';
+import { SnippetManager } from '../services/snippetManager';
+import { getDisplayPath } from '../services/workspacePaths';
+import { formatLineRange, getGroupLines, groupSnippets } from '../exporters/snippetGrouping';
+import { getCollectionEditorWebviewContent } from './webviewContent';
+
+/** What the editor's outline shows of one group (snippets with the same file and description) */
+interface OutlineGroup {
+    ids: string[];
+    path: string;
+    description: string;
+    explanation: string;
+    lines: string;
+    /** Snippet ids of the next group in the same file, which this group can be merged with */
+    mergeTargetIds?: string[];
+    snippets: { id: string; lines: string; preview: string; orphaned: boolean; drifted: boolean }[];
+}
+
+/** Messages the editor's webview sends */
+type EditorMessage =
+    | { command: 'ready' }
+    | { command: 'reorder'; ids: string[] }
+    | { command: 'edit'; ids: string[]; description: string; explanation: string }
+    | { command: 'merge'; ids: string[]; targetIds: string[] }
+    | { command: 'split'; id: string }
+    | { command: 'delete'; ids: string[] };
+
+// Typing in a tracked file changes its snippets on every keystroke; the outline and preview follow once it pauses
+const UPDATE_DELAY_MS = 300;
+
+/**
+ * Edits the whole active collection as a document outline next to a preview
+ * of the markdown export. Every change is written to the SnippetManager right
+ * away; changes made elsewhere come back through `update`.
+ */
+export class CollectionEditorPanel {
+    private readonly panel: vscode.WebviewPanel;
+    private updateTimeout: NodeJS.Timeout | undefined;
+    // Set when the collection changed while the panel was hidden
+    private stale = false;
+
+    constructor(private readonly snippetManager: SnippetManager, onDispose: () => void) {
+        this.panel = vscode.window.createWebviewPanel(
+            'collectionEditor',
+            'Collection Editor',
+            vscode.ViewColumn.Active,
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
+        this.panel.webview.html = getCollectionEditorWebviewContent();
+        this.panel.webview.onDidReceiveMessage((message: EditorMessage) => this.handleMessage(message));
+        this.panel.onDidChangeViewState(() => {
+            if (this.panel.visible && this.stale) this.update();
+        });
+        this.panel.onDidDispose(() => {
+            if (this.updateTimeout) clearTimeout(this.updateTimeout);
+            onDispose();
+        });
+    }
+
+    public reveal() {
+        this.panel.reveal();
+    }
+
+    public dispose() {
+        this.panel.dispose();
+    }
+
+    /** Sends the current collection and its markdown preview to the webview, shortly after the last change */
+    public update() {
+        if (this.updateTimeout) clearTimeout(this.updateTimeout);
+        if (!this.panel.visible) {
+            this.stale = true;
+            return;
+        }
+        this.updateTimeout = setTimeout(() => this.sendUpdate(), UPDATE_DELAY_MS);
+    }
+
+    private sendUpdate() {
+        this.updateTimeout = undefined;
+        this.stale = false;
+        const snippets = this.snippetManager.getAllSnippets();
+        const groups = groupSnippets(snippets);
+        const outline: OutlineGroup[] = groups.map((group, index) => {
+            const mergeTarget = groups.slice(index + 1).find(other => isSameFile(other[0], group[0]));
+            return {
+                ids: group.map(snippet => snippet.id!),
+                path: getDisplayPath(group[0]),
+                description: group[0].description,
+                explanation: group[0].explanation || '',
+                lines: getGroupLines(group),
+                mergeTargetIds: mergeTarget?.map(snippet => snippet.id!),
+                snippets: group.map(snippet => ({
+                    id: snippet.id!,
+                    lines: formatLineRange(snippet),
+                    preview: snippet.code.split('\n').slice(0, 3).join('\n'),
+                    orphaned: !!snippet.orphaned,
+                    drifted: !!snippet.drifted
+                }))
+            };
+        });
+
+        const name = this.snippetManager.getActiveCollection().name;
+        this.panel.title = `Collection Editor: ${name}`;
+        this.panel.webview.postMessage({
+            command: 'update',
+            name,
+            groups: outline,
+            preview: snippets.length > 0 ? this.snippetManager.generateMarkdownContent() : ''
+        });
+    }
+
+    private async handleMessage(message: EditorMessage) {
+        const snippets = this.snippetManager.getAllSnippets();
+        const byId = (ids: string[]) => snippets.filter(snippet => ids.includes(snippet.id!));
+
+        switch (message.command) {
+            case 'ready':
+                this.sendUpdate();
+                return;
+            case 'reorder': {
+                // Snippets missing from the message (added meanwhile) keep their place at the end
+                const ordered = message.ids
+                    .map(id => snippets.find(snippet => snippet.id === id))
+                    .filter((snippet): snippet is CodeSnippet => !!snippet);
+                this.save([...ordered, ...snippets.filter(snippet => !ordered.includes(snippet))]);
+                return;
+            }
+            case 'edit': {
+                const description = String(message.description || '').trim();
+                if (!description) {
+                    this.update();
+                    return;
+                }
+                byId(message.ids).forEach(snippet => {
+                    snippet.description = description;
+                    snippet.explanation = message.explanation || undefined;
+                });
+                this.save(snippets);
+                return;
+            }
+            case 'merge':
+                this.save(mergeGroups(snippets, byId(message.ids), byId(message.targetIds)));
+                return;
+            case 'split':
+                this.save(splitSnippet(snippets, message.id));
+                return;
+            case 'delete': {
+                const selected = byId(message.ids);
+                const confirm = await vscode.window.showWarningMessage(
+                    selected.length === 1 ? `Delete snippet "${selected[0].description}"?` : `Delete ${selected.length} snippets of "${selected[0]?.description}"?`,
+                    { modal: true },
+                    'Delete'
+                );
+                if (confirm === 'Delete') {
+                    this.save(snippets.filter(snippet => !selected.includes(snippet)));
+                }
+                return;
+            }
+        }
+    }
+
+    // The manager notifies its listeners, which calls update() again
+    private save(snippets: CodeSnippet[]) {
+        this.snippetManager.updateSnippetsFromExternal(snippets);
+    }
+}
+
+function isSameFile(a: CodeSnippet, b: CodeSnippet): boolean {
+    return a.workspaceFolder === b.workspaceFolder && a.relativePath === b.relativePath;
+}
+
+// The target group takes the description of the group it is merged into and moves up behind it
+function mergeGroups(snippets: CodeSnippet[], group: CodeSnippet[], target: CodeSnippet[]): CodeSnippet[] {
+    if (group.length === 0 || target.length === 0) return snippets;
+
+    const { description } = group[0];
+    const explanation = group[0].explanation || target[0].explanation;
+    target.forEach(snippet => snippet.description = description);
+    [...group, ...target].forEach(snippet => snippet.explanation = explanation);
+
+    const rest = snippets.filter(snippet => !target.includes(snippet));
+    const at = rest.indexOf(group[group.length - 1]) + 1;
+    return [...rest.slice(0, at), ...target, ...rest.slice(at)];
+}
+
+// The snippet becomes its own group, numbered so it no longer shares the description, right after its old group
+function splitSnippet(snippets: CodeSnippet[], id: string): CodeSnippet[] {
+    const snippet = snippets.find(s => s.id === id);
+    if (!snippet) return snippets;
+
+    const rest = snippets.filter(s => s !== snippet);
+    const siblings = rest.filter(s => isSameFile(s, snippet) && s.description === snippet.description);
+    if (siblings.length === 0) return snippets;
+
+    const descriptions = new Set(rest.filter(s => isSameFile(s, snippet)).map(s => s.description));
+    let number = 2;
+    while (descriptions.has(`${snippet.description} (${number})`)) number++;
+    snippet.description = `${snippet.description} (${number})`;
+
+    const at = rest.indexOf(siblings[siblings.length - 1]) + 1;
+    return [...rest.slice(0, at), snippet, ...rest.slice(at)];
+}
@@ -0,0 +1,140 @@
+import * as vscode from 'vscode';
+import { CodeSnippet } from '../types/types';
+import { getDisplayPath } from '../services/workspacePaths';
+import { formatLineRange } from '../exporters/snippetGrouping';
+import { getPlaybackWebviewContent } from './webviewContent';
+
+const PLAYING_CONTEXT_KEY = 'codeSnippetCollector.playing';
+
+/**
+ * Walks through snippets one step at a time: each step opens the snippet's
+ * file and selects its code, while a panel beside it shows the description
+ * and explanation. The status bar holds the previous/jump/next/stop controls.
+ */
+export class PlaybackSession {
+    private readonly panel: vscode.WebviewPanel;
+    private readonly statusBarItems: vscode.StatusBarItem[];
+    private readonly stepItem: vscode.StatusBarItem;
+    private index = 0;
+    private stopped = false;
+    private html = '';
+
+    constructor(
+        private readonly title: string,
+        private steps: CodeSnippet[],
+        private readonly reveal: (snippet: CodeSnippet, options: vscode.TextDocumentShowOptions) => Promise<vscode.TextEditor | undefined>,
+        private readonly onStop: () => void
+    ) {
+        this.panel = vscode.window.createWebviewPanel(
+            'snippetPlayback',
+            `Playback: ${title}`,
+            { viewColumn: vscode.ViewColumn.Two, preserveFocus: true },
+            { enableScripts: true }
+        );
+        this.panel.webview.onDidReceiveMessage(message => {
+            switch (message.command) {
+                case 'previous':
+                    this.previous();
+                    return;
+                case 'next':
+                    this.next();
+                    return;
+                case 'jump':
+                    this.jump();
+                    return;
+            }
+        });
+        this.panel.onDidDispose(() => this.stop());
+
+        const previousItem = createStatusBarItem(1003, '$(chevron-left)', 'Previous step', 'codeSnippetCollector.playbackPrevious');
+        this.stepItem = createStatusBarItem(1002, '', 'Jump to a step', 'codeSnippetCollector.playbackJump');
+        const nextItem = createStatusBarItem(1001, '$(chevron-right)', 'Next step', 'codeSnippetCollector.playbackNext');
+        const stopItem = createStatusBarItem(1000, '$(debug-stop)', 'Stop playback', 'codeSnippetCollector.stopPlayback');
+        this.statusBarItems = [previousItem, this.stepItem, nextItem, stopItem];
+
+        vscode.commands.executeCommand('setContext', PLAYING_CONTEXT_KEY, true);
+    }
+
+    public async start() {
+        await this.show(0);
+    }
+
+    public async next() {
+        if (this.index < this.steps.length - 1) {
+            await this.show(this.index + 1);
+        } else {
+            vscode.window.setStatusBarMessage('This was the last step.', 3000);
+        }
+    }
+
+    public async previous() {
+        if (this.index > 0) {
+            await this.show(this.index - 1);
+        }
+    }
+
+    public async jump() {
+        const picked = await vscode.window.showQuickPick(this.steps.map((snippet, index) => ({
+            label: `${index + 1}. ${snippet.description}`,
+            description: `${getDisplayPath(snippet)}:${formatLineRange(snippet)}`,
+            picked: index === this.index,
+            index
+        })), { placeHolder: `Jump to a step of "${this.title}"` });
+        if (picked) {
+            await this.show(picked.index);
+        }
+    }
+
+    /** Drops steps whose snippets left the collection and redraws the current one if it changed */
+    public update(snippets: CodeSnippet[]) {
+        const current = this.steps[this.index];
+        this.steps = this.steps.filter(snippet => snippets.includes(snippet));
+        if (this.steps.length === 0) {
+            this.stop();
+            return;
+        }
+        const kept = current ? this.steps.indexOf(current) : -1;
+        this.index = kept !== -1 ? kept : Math.min(this.index, this.steps.length - 1);
+        this.render();
+    }
+
+    // Also runs when the user closes the panel
+    public stop() {
+        if (this.stopped) return;
+        this.stopped = true;
+        this.statusBarItems.forEach(item => item.dispose());
+        vscode.commands.executeCommand('setContext', PLAYING_CONTEXT_KEY, false);
+        this.onStop();
+        this.panel.dispose();
+    }
+
+    private async show(index: number) {
+        this.index = index;
+        this.render();
+        if (!this.panel.visible) {
+            this.panel.reveal(undefined, true);
+        }
+        // The code goes to the first column so the panel beside it stays in view
+        await this.reveal(this.steps[index], { viewColumn: vscode.ViewColumn.One, preview: true });
+    }
+
+    // Setting the html reloads the webview, so it is only set when the step looks different
+    private render() {
+        const snippet = this.steps[this.index];
+        this.stepItem.text = `$(play) ${this.index + 1}/${this.steps.length} ${snippet.description}`;
+        const html = getPlaybackWebviewContent(snippet, getDisplayPath(snippet), this.index, this.steps.length);
+        if (html !== this.html) {
+            this.html = html;
+            this.panel.webview.html = html;
+        }
+    }
+}
+
+function createStatusBarItem(priority: number, text: string, tooltip: string, command: string): vscode.StatusBarItem {
+    const item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, priority);
+    item.text = text;
+    item.tooltip = tooltip;
+    item.command = command;
+    item.show();
+    return item;
+}
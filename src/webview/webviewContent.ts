@@ -9,7 +9,7 @@ function escapeHtml(unsafe: string): string {
          .replace(/'/g, "&#039;");
 }
 
-export function getAddSnippetWebviewContent(selectedCode: string): string {
+export function getAddSnippetWebviewContent(selectedCode: string, description: string = ''): string {
     return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -98,11 +98,14 @@ export function getAddSnippetWebviewContent(selectedCode: string): string {
     <pre class="code-block"><code>${escapeHtml(selectedCode)}</code></pre>
 
     <label for="description">Description (Required)</label>
-    <input type="text" id="description" placeholder="e.g., Database connection logic" required />
+    <input type="text" id="description" value="${escapeHtml(description)}" placeholder="e.g., Database connection logic" required />
 
     <label for="explanation">Explanation (Optional)</label>
     <textarea id="explanation" placeholder="e.g., Uses connection pooling and handles retry logic"></textarea>
 
+    <label for="tags">Tags (Optional)</label>
+    <input type="text" id="tags" placeholder="e.g., config, db, security-concern" />
+
     <div class="buttons">
         <button class="save-button">Save Snippet</button>
         <button type="button" class="cancel-button">Cancel</button>
@@ -116,6 +119,7 @@ export function getAddSnippetWebviewContent(selectedCode: string): string {
             const cancelButton = document.querySelector('.cancel-button');
             const descriptionInput = document.getElementById('description');
             const explanationInput = document.getElementById('explanation');
+            const tagsInput = document.getElementById('tags');
 
             saveButton.addEventListener('click', () => {
                 const description = descriptionInput.value;
@@ -127,7 +131,8 @@ export function getAddSnippetWebviewContent(selectedCode: string): string {
                 vscode.postMessage({
                     command: 'save',
                     description: description,
-                    explanation: explanation
+                    explanation: explanation,
+                    tags: tagsInput.value
                 });
             });
 
@@ -232,6 +237,9 @@ export function getUpdateSnippetWebviewContent(snippet: CodeSnippet): string {
     <label for="explanation">Explanation (Optional)</label>
     <textarea id="explanation">${escapeHtml(snippet.explanation || '')}</textarea>
 
+    <label for="tags">Tags (Optional)</label>
+    <input type="text" id="tags" value="${escapeHtml((snippet.tags || []).join(', '))}" placeholder="e.g., config, db, security-concern" />
+
     <div class="buttons">
         <button class="save-button">Update Snippet</button>
         <button type="button" class="cancel-button">Cancel</button>
@@ -245,6 +253,7 @@ export function getUpdateSnippetWebviewContent(snippet: CodeSnippet): string {
             const cancelButton = document.querySelector('.cancel-button');
             const descriptionInput = document.getElementById('description');
             const explanationInput = document.getElementById('explanation');
+            const tagsInput = document.getElementById('tags');
 
             saveButton.addEventListener('click', () => {
                 const description = descriptionInput.value;
@@ -256,7 +265,8 @@ export function getUpdateSnippetWebviewContent(snippet: CodeSnippet): string {
                 vscode.postMessage({
                     command: 'save',
                     description: description,
-                    explanation: explanation
+                    explanation: explanation,
+                    tags: tagsInput.value
                 });
             });
 
@@ -270,7 +280,7 @@ export function getUpdateSnippetWebviewContent(snippet: CodeSnippet): string {
 </html>`;
 }
 
-export function getMultiSnippetWebviewContent(editor: any, selections: any[]): string {
+export function getMultiSnippetWebviewContent(editor: any, selections: any[], descriptions: string[] = []): string {
     let blocks = '';
     for (let i = 0; i < selections.length; i++) {
         const code = escapeHtml(editor.document.getText(selections[i]));
@@ -279,9 +289,11 @@ export function getMultiSnippetWebviewContent(editor: any, selections: any[]): s
             <h3>Snippet ${i + 1} Preview</h3>
             <pre class="code-block"><code>${code}</code></pre>
             <label for="desc${i}">Description (Required)</label>
-            <input type="text" id="desc${i}" placeholder="e.g., Description for snippet ${i + 1}" required />
+            <input type="text" id="desc${i}" value="${escapeHtml(descriptions[i] || '')}" placeholder="e.g., Description for snippet ${i + 1}" required />
             <label for="expl${i}">Explanation (Optional)</label>
             <textarea id="expl${i}" placeholder="Explanation for snippet ${i + 1}"></textarea>
+            <label for="tags${i}">Tags (Optional)</label>
+            <input type="text" id="tags${i}" placeholder="e.g., config, db, security-concern" />
         </div>
         <hr/>
         `;
@@ -390,6 +402,7 @@ export function getMultiSnippetWebviewContent(editor: any, selections: any[]): s
             saveButton.addEventListener('click', () => {
                 const descriptions = [];
                 const explanations = [];
+                const tags = [];
                 let valid = true;
                 ${selections.map((_, i) => `
                 const desc${i} = document.getElementById('desc${i}').value;
@@ -399,12 +412,14 @@ export function getMultiSnippetWebviewContent(editor: any, selections: any[]): s
                 }
                 descriptions.push(desc${i});
                 explanations.push(document.getElementById('expl${i}').value);
+                tags.push(document.getElementById('tags${i}').value);
                 `).join('\n')}
                 if (!valid) return;
                 vscode.postMessage({
                     command: 'save',
                     descriptions: descriptions,
-                    explanations: explanations
+                    explanations: explanations,
+                    tags: tags
                 });
             });
             cancelButton.addEventListener('click', () => {
@@ -510,6 +525,9 @@ export function getEditSnippetWebviewContent(snippet: CodeSnippet): string {
     <label for="explanation">Explanation (Optional)</label>
     <textarea id="explanation">${escapeHtml(snippet.explanation || '')}</textarea>
 
+    <label for="tags">Tags (Optional)</label>
+    <input type="text" id="tags" value="${escapeHtml((snippet.tags || []).join(', '))}" placeholder="e.g., config, db, security-concern" />
+
     <div class="buttons">
         <button class="save-button">Update Snippet</button>
         <button type="button" class="cancel-button">Cancel</button>
@@ -523,6 +541,7 @@ export function getEditSnippetWebviewContent(snippet: CodeSnippet): string {
             const cancelButton = document.querySelector('.cancel-button');
             const descriptionInput = document.getElementById('description');
             const explanationInput = document.getElementById('explanation');
+            const tagsInput = document.getElementById('tags');
 
             saveButton.addEventListener('click', () => {
                 const description = descriptionInput.value;
@@ -534,7 +553,8 @@ export function getEditSnippetWebviewContent(snippet: CodeSnippet): string {
                 vscode.postMessage({
                     command: 'save',
                     description: description,
-                    explanation: explanation
+                    explanation: explanation,
+                    tags: tagsInput.value
                 });
             });
 
@@ -547,3 +567,420 @@ export function getEditSnippetWebviewContent(snippet: CodeSnippet): string {
 </body>
 </html>`;
 }
+
+// The outline is drawn by the script from the 'update' messages of CollectionEditorPanel
+export function getCollectionEditorWebviewContent(): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Collection Editor</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            color: var(--vscode-editor-foreground);
+            background-color: var(--vscode-editor-background);
+            padding: 1.2rem;
+        }
+        h1, h3 {
+            color: var(--vscode-side-bar-title-foreground);
+            border-bottom: 1px solid var(--vscode-text-separator-foreground);
+            padding-bottom: 0.5rem;
+            margin-top: 0;
+        }
+        .layout {
+            display: grid;
+            grid-template-columns: minmax(0, 1fr) minmax(0, 1fr);
+            gap: 1.5rem;
+        }
+        .preview {
+            position: sticky;
+            top: 0;
+            max-height: 95vh;
+            overflow-y: auto;
+        }
+        input[type="text"], textarea {
+            width: 95%;
+            padding: 6px;
+            margin-top: 0.4rem;
+            border-radius: 4px;
+            border: 1px solid var(--vscode-input-border);
+            background-color: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            font-family: var(--vscode-font-family);
+        }
+        textarea {
+            height: 60px;
+            resize: vertical;
+        }
+        .group {
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 4px;
+            padding: 0.6rem;
+            margin-bottom: 0.8rem;
+        }
+        .group.drop-before {
+            border-top: 3px solid var(--vscode-focusBorder);
+        }
+        .group.drop-after {
+            border-bottom: 3px solid var(--vscode-focusBorder);
+        }
+        .group-header, .snippet-header {
+            display: flex;
+            align-items: center;
+            gap: 0.5rem;
+        }
+        .group-header {
+            cursor: grab;
+        }
+        .path {
+            font-family: var(--vscode-editor-font-family);
+            font-weight: bold;
+        }
+        .lines {
+            opacity: 0.7;
+        }
+        .actions {
+            margin-left: auto;
+            display: flex;
+            gap: 0.3rem;
+        }
+        .snippets {
+            list-style: none;
+            padding: 0;
+            margin: 0.5rem 0 0 0;
+        }
+        .snippet {
+            border-left: 3px solid var(--vscode-text-block-quote-border);
+            padding: 0.3rem 0.5rem;
+            margin-top: 0.4rem;
+            cursor: grab;
+        }
+        .snippet.drop-before {
+            border-top: 2px solid var(--vscode-focusBorder);
+        }
+        .snippet.drop-after {
+            border-bottom: 2px solid var(--vscode-focusBorder);
+        }
+        .snippet.orphaned {
+            border-left-color: var(--vscode-editorError-foreground);
+        }
+        .snippet.drifted {
+            border-left-color: var(--vscode-editorWarning-foreground);
+        }
+        pre {
+            background-color: var(--vscode-text-block-quote-background);
+            padding: 6px;
+            border-radius: 4px;
+            white-space: pre-wrap;
+            word-wrap: break-word;
+            font-family: var(--vscode-editor-font-family);
+            margin: 0.3rem 0 0 0;
+        }
+        button {
+            padding: 3px 8px;
+            border: none;
+            border-radius: 4px;
+            cursor: pointer;
+            background-color: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+        }
+        button:hover {
+            background-color: var(--vscode-button-secondaryHoverBackground);
+        }
+    </style>
+</head>
+<body>
+    <div class="layout">
+        <section>
+            <h1 id="title">Collection Editor</h1>
+            <p id="empty" hidden>This collection has no snippets yet.</p>
+            <div id="groups"></div>
+        </section>
+        <section class="preview">
+            <h3>Markdown Preview</h3>
+            <pre id="preview"></pre>
+        </section>
+    </div>
+
+    <script>
+        (function() {
+            const vscode = acquireVsCodeApi();
+            const groupsElement = document.getElementById('groups');
+            let groups = [];
+            let dragged;
+
+            function escapeHtml(text) {
+                return String(text)
+                    .replace(/&/g, '&amp;')
+                    .replace(/</g, '&lt;')
+                    .replace(/>/g, '&gt;')
+                    .replace(/"/g, '&quot;');
+            }
+
+            function render() {
+                document.getElementById('empty').hidden = groups.length > 0;
+                groupsElement.innerHTML = groups.map(function(group, index) {
+                    const snippets = group.snippets.map(function(snippet) {
+                        const state = snippet.orphaned ? ' orphaned' : snippet.drifted ? ' drifted' : '';
+                        const label = snippet.orphaned ? 'orphaned' : 'Lines ' + snippet.lines + (snippet.drifted ? ' (changed)' : '');
+                        return '<li class="snippet' + state + '" draggable="true" data-group="' + index + '" data-id="' + escapeHtml(snippet.id) + '">' +
+                            '<div class="snippet-header"><span class="lines">' + escapeHtml(label) + '</span><div class="actions">' +
+                            (group.snippets.length > 1 ? '<button data-action="split" title="Make this snippet its own group">Split Out</button>' : '') +
+                            '<button data-action="delete-snippet">Delete</button></div></div>' +
+                            '<pre>' + escapeHtml(snippet.preview) + '</pre></li>';
+                    }).join('');
+
+                    return '<div class="group" data-index="' + index + '">' +
+                        '<div class="group-header" draggable="true" title="Drag to reorder">' +
+                        '<span>⋮⋮</span><span class="path">' + escapeHtml(group.path) + '</span><span class="lines">' + escapeHtml(group.lines) + '</span>' +
+                        '<div class="actions">' +
+                        (group.mergeTargetIds ? '<button data-action="merge" title="Merge the next group of this file into this one">Merge Next</button>' : '') +
+                        '<button data-action="delete-group">Delete</button></div></div>' +
+                        '<input type="text" class="description" value="' + escapeHtml(group.description) + '" required />' +
+                        '<textarea class="explanation" placeholder="Explanation (optional)">' + escapeHtml(group.explanation) + '</textarea>' +
+                        '<ul class="snippets">' + snippets + '</ul></div>';
+                }).join('');
+            }
+
+            function postOrder() {
+                const ids = [];
+                groups.forEach(function(group) {
+                    group.snippets.forEach(function(snippet) { ids.push(snippet.id); });
+                });
+                vscode.postMessage({ command: 'reorder', ids: ids });
+            }
+
+            function clearDropMarkers() {
+                document.querySelectorAll('.drop-before, .drop-after').forEach(function(element) {
+                    element.classList.remove('drop-before', 'drop-after');
+                });
+            }
+
+            // Where the dragged item goes relative to the element under the pointer
+            function getDropTarget(event) {
+                if (!dragged) return undefined;
+                const selector = dragged.type === 'group' ? '.group' : '.snippet';
+                const element = event.target.closest(selector);
+                if (!element) return undefined;
+                if (dragged.type === 'snippet' && Number(element.dataset.group) !== dragged.group) return undefined;
+                const box = element.getBoundingClientRect();
+                return { element: element, after: event.clientY > box.top + box.height / 2 };
+            }
+
+            function move(items, from, to, after) {
+                if (from === to) return;
+                const item = items.splice(from, 1)[0];
+                if (from < to) to--;
+                items.splice(after ? to + 1 : to, 0, item);
+            }
+
+            groupsElement.addEventListener('dragstart', function(event) {
+                const snippet = event.target.closest('.snippet');
+                if (snippet) {
+                    dragged = { type: 'snippet', group: Number(snippet.dataset.group), id: snippet.dataset.id };
+                } else if (event.target.classList.contains('group-header')) {
+                    dragged = { type: 'group', index: Number(event.target.parentElement.dataset.index) };
+                }
+                event.dataTransfer.effectAllowed = 'move';
+            });
+
+            groupsElement.addEventListener('dragover', function(event) {
+                const target = getDropTarget(event);
+                clearDropMarkers();
+                if (!target) return;
+                event.preventDefault();
+                target.element.classList.add(target.after ? 'drop-after' : 'drop-before');
+            });
+
+            groupsElement.addEventListener('drop', function(event) {
+                const target = getDropTarget(event);
+                clearDropMarkers();
+                if (!target) return;
+                event.preventDefault();
+
+                if (dragged.type === 'group') {
+                    move(groups, dragged.index, Number(target.element.dataset.index), target.after);
+                } else {
+                    const snippets = groups[dragged.group].snippets;
+                    const ids = snippets.map(function(snippet) { return snippet.id; });
+                    move(snippets, ids.indexOf(dragged.id), ids.indexOf(target.element.dataset.id), target.after);
+                }
+                dragged = undefined;
+                render();
+                postOrder();
+            });
+
+            groupsElement.addEventListener('dragend', function() {
+                dragged = undefined;
+                clearDropMarkers();
+            });
+
+            groupsElement.addEventListener('change', function(event) {
+                const groupElement = event.target.closest('.group');
+                if (!groupElement) return;
+                const group = groups[Number(groupElement.dataset.index)];
+                const description = groupElement.querySelector('.description').value.trim();
+                if (!description) {
+                    groupElement.querySelector('.description').value = group.description;
+                    return;
+                }
+                vscode.postMessage({
+                    command: 'edit',
+                    ids: group.ids,
+                    description: description,
+                    explanation: groupElement.querySelector('.explanation').value
+                });
+            });
+
+            groupsElement.addEventListener('click', function(event) {
+                const button = event.target.closest('button');
+                if (!button) return;
+                const group = groups[Number(button.closest('.group').dataset.index)];
+                const snippet = button.closest('.snippet');
+
+                switch (button.dataset.action) {
+                    case 'merge':
+                        vscode.postMessage({ command: 'merge', ids: group.ids, targetIds: group.mergeTargetIds });
+                        break;
+                    case 'split':
+                        vscode.postMessage({ command: 'split', id: snippet.dataset.id });
+                        break;
+                    case 'delete-snippet':
+                        vscode.postMessage({ command: 'delete', ids: [snippet.dataset.id] });
+                        break;
+                    case 'delete-group':
+                        vscode.postMessage({ command: 'delete', ids: group.ids });
+                        break;
+                }
+            });
+
+            window.addEventListener('message', function(event) {
+                const message = event.data;
+                if (message.command !== 'update') return;
+                groups = message.groups;
+                document.getElementById('title').textContent = message.name;
+                document.getElementById('preview').textContent = message.preview;
+
+                // Keep the field being typed in, with its text not sent yet, across the redraw
+                const active = document.activeElement;
+                const field = active && active.closest('.group') && (active.classList.contains('description') ? '.description' : active.classList.contains('explanation') ? '.explanation' : undefined);
+                const index = field && active.closest('.group').dataset.index;
+                const cursor = field && active.selectionStart;
+                const value = field && active.value;
+                render();
+                if (field) {
+                    const restored = groupsElement.querySelector('.group[data-index="' + index + '"] ' + field);
+                    if (restored) {
+                        restored.value = value;
+                        restored.focus();
+                        restored.setSelectionRange(cursor, cursor);
+                    }
+                }
+            });
+
+            vscode.postMessage({ command: 'ready' });
+        }());
+    </script>
+</body>
+</html>`;
+}
+
+export function getPlaybackWebviewContent(snippet: CodeSnippet, displayPath: string, index: number, total: number): string {
+    const explanation = snippet.explanation?.trim()
+        ? `<div class="explanation">${escapeHtml(snippet.explanation.trim())}</div>`
+        : '<p class="muted">No explanation for this step.</p>';
+    const tags = snippet.tags?.length
+        ? `<p class="muted">${snippet.tags.map(tag => `#${escapeHtml(tag)}`).join(' ')}</p>`
+        : '';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Playback</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            color: var(--vscode-editor-foreground);
+            background-color: var(--vscode-editor-background);
+            padding: 1.2rem;
+        }
+        h1 {
+            color: var(--vscode-side-bar-title-foreground);
+            border-bottom: 1px solid var(--vscode-text-separator-foreground);
+            padding-bottom: 0.5rem;
+            margin-top: 0;
+        }
+        .step {
+            text-transform: uppercase;
+            font-size: 0.85em;
+            letter-spacing: 0.05em;
+        }
+        .muted, .step {
+            opacity: 0.7;
+        }
+        .path {
+            font-family: var(--vscode-editor-font-family);
+        }
+        .explanation {
+            white-space: pre-wrap;
+            line-height: 1.5;
+            border-left: 3px solid var(--vscode-text-block-quote-border);
+            background-color: var(--vscode-text-block-quote-background);
+            padding: 0.6rem 0.8rem;
+        }
+        .buttons {
+            margin-top: 1.5rem;
+            display: flex;
+            gap: 0.5rem;
+        }
+        button {
+            padding: 8px 12px;
+            border: none;
+            border-radius: 4px;
+            cursor: pointer;
+            background-color: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+        }
+        button:hover {
+            background-color: var(--vscode-button-hoverBackground);
+        }
+        button:disabled {
+            opacity: 0.5;
+            cursor: default;
+        }
+        .secondary {
+            background-color: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+        }
+    </style>
+</head>
+<body>
+    <p class="step">Step ${index + 1} of ${total}</p>
+    <h1>${escapeHtml(snippet.description)}</h1>
+    <p class="path">${escapeHtml(displayPath)}${snippet.orphaned ? ' — <strong>code not found</strong>' : ''}</p>
+    ${tags}
+    ${explanation}
+
+    <div class="buttons">
+        <button data-command="previous" ${index === 0 ? 'disabled' : ''}>◀ Previous</button>
+        <button data-command="jump" class="secondary">Jump to...</button>
+        <button data-command="next" ${index === total - 1 ? 'disabled' : ''}>Next ▶</button>
+    </div>
+
+    <script>
+        (function() {
+            const vscode = acquireVsCodeApi();
+            document.querySelectorAll('button').forEach(function(button) {
+                button.addEventListener('click', function() {
+                    vscode.postMessage({ command: button.dataset.command });
+                });
+            });
+        }());
+    </script>
+</body>
+</html>`;
+}